@@ -1,11 +1,28 @@
 import * as React from "react";
-import { DefaultProps, RequiredProps, ScaleToOptions } from "./types";
+import {
+  AnimationStatus,
+  ControlledProps,
+  DefaultProps,
+  RequiredProps,
+  ScaleToOptions,
+  UpdateAction
+} from "./types";
+import { Point } from "../types";
 
 declare class PinchZoom extends React.Component<
-  RequiredProps & Partial<DefaultProps>
+  RequiredProps & Partial<DefaultProps> & ControlledProps
 > {
-  alignCenter(options: ScaleToOptions): void;
-  scaleTo(options: ScaleToOptions): void;
+  alignCenter(options: ScaleToOptions): Promise<AnimationStatus>;
+  scaleTo(options: ScaleToOptions): Promise<AnimationStatus>;
+  reset(): void;
+  zoomIn(): Promise<AnimationStatus>;
+  zoomOut(): Promise<AnimationStatus>;
+  getTransform(): UpdateAction;
+  getZoomFactor(): number;
+  isAnimating(): boolean;
+  isInteracting(): boolean;
+  screenToContent(point: Point): Point;
+  contentToScreen(point: Point): Point;
 }
 
 export default PinchZoom;
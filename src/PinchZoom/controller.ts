@@ -0,0 +1,2691 @@
+import { Interaction, Point } from "../types";
+import {
+  AnimateOptions,
+  AnimationStatus,
+  Easing,
+  Spring,
+  ScaleToOptions,
+  UpdateAction,
+  ControllerOptions,
+  KeyBindings,
+  UpdateListener,
+  ZoomStop,
+  DoubleTapHandler,
+  GestureCallback,
+  GestureEvent,
+  GestureEventType,
+  Fit,
+  Align
+} from "./types";
+import {
+  isTouch,
+  hasPointerEvents,
+  hasTranslate3DSupport,
+  make2dTransformValue,
+  make3dTransformValue
+} from "../utils";
+
+const { abs, atan2, cos, exp, log, max, min, pow, sin, sqrt, PI } = Math;
+
+// Globals are read on demand, so the module can be imported on the server
+const isMac = () => /(Mac)/i.test(navigator.platform);
+
+const isDragInteraction = (i: Interaction | null): boolean => i === "drag";
+
+const isZoomInteraction = (i: Interaction | null): boolean => i === "zoom";
+
+const isZoomGesture = (wheelEvent: WheelEvent) => wheelEvent.ctrlKey && isMac();
+
+// Form fields and editors inside the content handle their own keys
+const isEditable = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+
+  return (
+    !!element &&
+    (element.isContentEditable ||
+      /^(input|textarea|select)$/i.test(element.tagName))
+  );
+};
+
+const cancelEvent = (event: any): void => {
+  event.stopPropagation();
+  event.preventDefault();
+};
+
+const getDistance = (a: Point, b: Point): number => {
+  const x = a.x - b.x;
+  const y = a.y - b.y;
+
+  return sqrt(x * x + y * y);
+};
+
+const calculateScale = (
+  startTouches: Array<Point>,
+  endTouches: Array<Point>
+): number => {
+  const startDistance = getDistance(startTouches[0], startTouches[1]);
+  const endDistance = getDistance(endTouches[0], endTouches[1]);
+
+  return endDistance / startDistance;
+};
+
+const getAngle = (a: Point, b: Point): number =>
+  (atan2(b.y - a.y, b.x - a.x) * 180) / PI;
+
+const calculateRotation = (
+  startTouches: Array<Point>,
+  endTouches: Array<Point>
+): number =>
+  getAngle(endTouches[0], endTouches[1]) -
+  getAngle(startTouches[0], startTouches[1]);
+
+// Keeps angle in range (-180, 180]
+const normalizeAngle = (angle: number): number => {
+  const value = angle % 360;
+
+  return value > 180 ? value - 360 : value <= -180 ? value + 360 : value;
+};
+
+const rotatePoint = ({ x, y }: Point, angle: number): Point => {
+  const radians = (angle * PI) / 180;
+
+  return {
+    x: x * cos(radians) - y * sin(radians),
+    y: x * sin(radians) + y * cos(radians)
+  };
+};
+
+const getRotatedBounds = (
+  width: number,
+  height: number,
+  angle: number
+): { x: number; y: number; width: number; height: number } => {
+  const corners = [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: 0, y: height },
+    { x: width, y: height }
+  ].map(point => rotatePoint(point, angle));
+  const xs = corners.map(({ x }) => x);
+  const ys = corners.map(({ y }) => y);
+  const x = min(...xs);
+  const y = min(...ys);
+
+  return { x, y, width: max(...xs) - x, height: max(...ys) - y };
+};
+
+// Position of the content in the container: 0 - start, 0.5 - center, 1 - end
+const getAlignFactors = (align: Align): Point => ({
+  x: /left/.test(align) ? 0 : /right/.test(align) ? 1 : 0.5,
+  y: /top/.test(align) ? 0 : /bottom/.test(align) ? 1 : 0.5
+});
+
+const isCloseTo = (value: number, expected: number) =>
+  value > expected - 0.01 && value < expected + 0.01;
+
+const isSameValue = (a: number, b: number): boolean => abs(a - b) < 1e-6;
+
+const isSameTransform = (a: UpdateAction, b: UpdateAction): boolean =>
+  isSameValue(a.scale, b.scale) &&
+  isSameValue(a.x, b.x) &&
+  isSameValue(a.y, b.y) &&
+  isSameValue(a.rotation || 0, b.rotation || 0);
+
+type Elasticity = (
+  distance: number,
+  limit: number,
+  resistance: number
+) => number;
+
+// Overshoot with diminishing resistance, it approaches the limit but never reaches it
+const rubberBand: Elasticity = (distance, limit, resistance) => {
+  if (limit <= 0) {
+    return 0;
+  }
+
+  const value = (1 - 1 / ((abs(distance) * resistance) / limit + 1)) * limit;
+
+  return distance < 0 ? -value : value;
+};
+
+// Restores the distance that gives the overshoot
+const reverseRubberBand: Elasticity = (value, limit, resistance) => {
+  if (limit <= 0) {
+    return 0;
+  }
+
+  const overshoot = min(abs(value), limit * 0.99);
+  const distance = (limit / resistance) * (overshoot / (limit - overshoot));
+
+  return value < 0 ? -distance : distance;
+};
+
+const swing = (p: number): number => -Math.cos(p * Math.PI) / 2 + 0.5;
+
+const linear = (p: number): number => p;
+
+// Step of the spring simulation (ms), fixed steps keep it stable
+const SPRING_STEP = 1;
+
+// A spring is at rest when both its distance to the target and its velocity are below it
+const SPRING_PRECISION = 0.001;
+
+// Springs without damping are stopped after this time (ms)
+const MAX_SPRING_DURATION = 10000;
+
+type Timeline = (elapsed: number) => { progress: number; finished: boolean };
+
+const createEasingTimeline = (
+  easing: (progress: number) => number,
+  duration: number
+): Timeline => elapsed =>
+  elapsed >= duration
+    ? { progress: 1, finished: true }
+    : { progress: easing(elapsed / duration), finished: false };
+
+// `velocity` is the initial velocity of the progress per ms
+const createSpringTimeline = (
+  { stiffness, damping }: Spring,
+  velocity: number
+): Timeline => {
+  let position = 0;
+  let speed = velocity * 1000;
+  let time = 0;
+
+  return elapsed => {
+    for (; time < elapsed; time += SPRING_STEP) {
+      const acceleration = stiffness * (1 - position) - damping * speed;
+
+      speed += (acceleration * SPRING_STEP) / 1000;
+      position += (speed * SPRING_STEP) / 1000;
+    }
+
+    const finished =
+      elapsed >= MAX_SPRING_DURATION ||
+      (abs(1 - position) < SPRING_PRECISION && abs(speed) < SPRING_PRECISION);
+
+    return { progress: finished ? 1 : position, finished };
+  };
+};
+
+const createTimeline = (
+  easing: Easing,
+  duration: number,
+  velocity: number
+): Timeline =>
+  typeof easing === "function"
+    ? createEasingTimeline(easing, duration)
+    : createSpringTimeline(easing, velocity);
+
+const getPointByPageCoordinates = (touch: {
+  pageX: number;
+  pageY: number;
+}): Point => ({
+  x: touch.pageX,
+  y: touch.pageY
+});
+
+const getPageCoordinatesByTouches = (touches: TouchList): Array<Point> =>
+  Array.from(touches).map(getPointByPageCoordinates);
+
+const sum = (a: number, b: number): number => a + b;
+
+const getVectorAvg = (vectors: Array<Point>): Point => ({
+  x: vectors.map(({ x }) => x).reduce(sum, 0) / vectors.length,
+  y: vectors.map(({ y }) => y).reduce(sum, 0) / vectors.length
+});
+
+const clamp = (min: number, max: number, value: number): number =>
+  value < min ? min : value > max ? max : value;
+
+const shouldInterceptWheel = (event: WheelEvent): boolean =>
+  !(event.ctrlKey || event.metaKey);
+
+// Axes the browser scrolls when a gesture at the initial fit is handed off to it
+const chainedTouchActions: { [scrollChaining: string]: string } = {
+  x: "pan-x",
+  y: "pan-y",
+  both: "pan-x pan-y"
+};
+
+const isScrollable = (
+  overflow: string,
+  scrollSize: number,
+  clientSize: number
+): boolean => /auto|scroll/.test(overflow) && scrollSize > clientSize;
+
+const getElementSize = (
+  element: HTMLElement | null
+): { width: number; height: number } => {
+  if (element) {
+    const { offsetWidth, offsetHeight } = element;
+
+    // Any DOMElement
+    if (offsetWidth && offsetHeight) {
+      return { width: offsetWidth, height: offsetHeight };
+    }
+
+    // Svg support
+    const style = getComputedStyle(element);
+    const width = parseFloat(style.width);
+    const height = parseFloat(style.height);
+
+    if (height && width) {
+      return { width, height };
+    }
+  }
+
+  return { width: 0, height: 0 };
+};
+
+type DragSample = { point: Point; time: number };
+
+type ZoomSample = { zoomFactor: number; time: number };
+
+// Velocity is estimated over the samples of this time window (ms)
+const VELOCITY_WINDOW = 100;
+
+// `inertiaFriction` is applied once per frame of a 60Hz screen
+const FRAME_DURATION = 1000 / 60;
+
+// Inertia stops below these velocities (px/ms and zoom factor log/ms)
+const MIN_VELOCITY = 0.01;
+const MIN_ZOOM_VELOCITY = 0.00005;
+
+const getRecentSamples = <T extends { time: number }>(
+  samples: Array<T>,
+  time: number
+): Array<T> => samples.filter(sample => time - sample.time <= VELOCITY_WINDOW);
+
+const getDecay = (friction: number, elapsed: number): number =>
+  pow(friction, elapsed / FRAME_DURATION);
+
+// Distance traveled while the velocity decays exponentially,
+// it doesn't depend on how the time is split into frames
+const getDecayDistance = (
+  velocity: number,
+  decay: number,
+  elapsed: number
+): number =>
+  decay === 1
+    ? velocity * elapsed
+    : (velocity * elapsed * (1 - decay)) / -log(decay);
+
+const comparePoints = (p1: Point, p2: Point) => p1.x === p2.x && p1.y === p2.y;
+
+const noup = () => {};
+
+const defaultKeyBindings: KeyBindings = {
+  zoomIn: ["+", "="],
+  zoomOut: ["-", "_"],
+  reset: ["0"],
+  panLeft: ["ArrowLeft"],
+  panRight: ["ArrowRight"],
+  panUp: ["ArrowUp"],
+  panDown: ["ArrowDown"]
+};
+
+// `+` and a space are separators in `aria-keyshortcuts`, so their keys are named
+const ariaKeyNames: { [key: string]: string } = { "+": "Plus", " ": "Space" };
+
+const getZoomAnnouncement = (zoomFactor: number): string =>
+  `${Math.round(zoomFactor * 100)}%`;
+
+// Hidden from the screen, but not from screen readers
+const visuallyHiddenStyle =
+  "position:absolute;width:1px;height:1px;margin:-1px;padding:0;" +
+  "overflow:hidden;clip:rect(0 0 0 0);white-space:nowrap;border:0";
+
+const zeroPoint = { x: 0, y: 0 };
+
+type EventHandler = [string, EventListener, Document?];
+
+// `ResizeObserver` isn't in the DOM types of TypeScript yet
+type ResizeObserverLike = {
+  observe(target: Element): void;
+  unobserve(target: Element): void;
+  disconnect(): void;
+};
+
+// The observers are missing in old browsers
+type ObserverWindow = Window & {
+  ResizeObserver?: new (callback: () => void) => ResizeObserverLike;
+  MutationObserver?: typeof MutationObserver;
+};
+
+type GestureCallbackName =
+  | "onZoomStart"
+  | "onZoomUpdate"
+  | "onZoomEnd"
+  | "onDragStart"
+  | "onDragUpdate"
+  | "onDragEnd"
+  | "onDoubleTap"
+  | "onTap"
+  | "onLongPress";
+
+const defaultOptions: ControllerOptions = {
+  absoluteScale: false,
+  animationDuration: 250,
+  applyTransform: false,
+  doubleTapBehavior: "zoomIn",
+  doubleTapDelay: 300,
+  draggableUnZoomed: true,
+  easing: swing,
+  elastic: false,
+  elasticResistance: 0.55,
+  enableRotation: false,
+  enabled: true,
+  fit: "contain",
+  inertia: true,
+  inertiaFriction: 0.96,
+  horizontalPadding: 0,
+  initialAlign: "center",
+  isTouch,
+  keyBindings: defaultKeyBindings,
+  keyboard: false,
+  keyboardPanStep: 50,
+  keyboardZoomStep: 0.5,
+  getZoomAnnouncement,
+  limitToNativeSize: false,
+  lockDragAxis: false,
+  longPressDelay: 500,
+  maxOverscroll: 100,
+  maxOverzoom: 0.3,
+  maxZoom: 5,
+  minZoom: 0.5,
+  onChange: noup,
+  onDoubleTap: noup,
+  onDragEnd: noup,
+  onDragStart: noup,
+  onDragUpdate: noup,
+  onLongPress: noup,
+  onTap: noup,
+  onZoomEnd: noup,
+  onZoomStart: noup,
+  onZoomUpdate: noup,
+  scrollChaining: "none",
+  setOffsetsOnce: false,
+  shouldInterceptWheel,
+  tapThreshold: 5,
+  tapZoomFactor: 1,
+  verticalPadding: 0,
+  wheelPan: false,
+  wheelScaleFactor: 1500,
+  zoomOutFactor: 1.3,
+  zoomStops: [],
+  // Elements of the container's document are used by default
+  _html: null,
+  _body: null,
+  onUpdate: noup
+};
+
+class PinchZoomController {
+  _dragSamples: Array<DragSample> = [];
+  _zoomSamples: Array<ZoomSample> = [];
+  _containerObserver: ResizeObserverLike | null = null;
+  // Replaces of the content element and its images
+  _contentObserver: MutationObserver | null = null;
+  _observedContent: HTMLElement | null = null;
+  _observedImages: Array<HTMLImageElement> = [];
+  _scrollRoots: Array<Document | ShadowRoot> = [];
+  _fingers: number = 0;
+  _firstMove: boolean = true;
+  _hasInteraction: boolean;
+  _inAnimation: boolean;
+  _resolveAnimation: ((status: AnimationStatus) => void) | null = null;
+  _initialOffset: Point = { ...zeroPoint };
+  _interaction: Interaction | null = null;
+  _isDoubleTap: boolean = false;
+  // The zoom factor was changed by a gesture and should be snapped to a stop
+  _isZoomSnapPending: boolean = false;
+  _isOffsetsSet: boolean = false;
+  _lastDragPosition: Point | null = null;
+  _lastScale: number = 1;
+  _lastRotation: number = 0;
+  _lastTouchStart: number = -Infinity;
+  _lastZoomCenter: Point | null = null;
+  _listenMouseMove: boolean = false;
+  _nthZoom: number = 0;
+  _offset: Point = { ...zeroPoint };
+  _pointers: Array<PointerEvent> = [];
+  _startTouches: Array<Point> | null = null;
+  // Where a tap started, until the pointer moves further than `tapThreshold`
+  _tapStart: Point | null = null;
+  _longPressTimeOut: ReturnType<typeof setTimeout> | null = null;
+  // The last point of a single pointer gesture
+  _lastDragPoint: Point | null = null;
+  // The gesture was handed off to a parent scroller
+  _isScrollChained: boolean = false;
+  // The scroller moved by the controller when the browser can't take over
+  _scrollParent: Element | null = null;
+  // `touch-action` of the container set by the controller
+  _touchAction: string | null = null;
+  _updatePlaned: boolean = false;
+  _wheelTimeOut: NodeJS.Timeout | null = null;
+  _zoomFactor: number = 1;
+  _rotation: number = 0;
+  _initialZoomFactor: number = 1;
+  _lastChange: UpdateAction | null = null;
+  // The event being handled and the last points of the gesture for payloads of callbacks
+  _nativeEvent: Event | null = null;
+  _gesturePoints: Array<Point> | null = null;
+  _lastGestureTransform: UpdateAction | null = null;
+  // It help reduce behavior difference between touch and mouse events
+  _ignoreNextClick: boolean = false;
+  _options: ControllerOptions = defaultOptions;
+  _container: HTMLElement | null = null;
+  _content: HTMLElement | null = null;
+  _listeners: Array<UpdateListener> = [];
+  _liveRegion: HTMLElement | null = null;
+  _accessibilityAttributes: Array<string> = [];
+  _handlers: Array<EventHandler> = [];
+  _makeTransformValue: (
+    updateAction: UpdateAction
+  ) => string = make2dTransformValue;
+  // Measurements are cached, reading them on each event forces a layout
+  _containerRect: ClientRect | null = null;
+  _childSize: { width: number; height: number } | null = null;
+
+  constructor(options: Partial<ControllerOptions> = {}) {
+    this.setOptions(options);
+  }
+
+  _handleClick = (clickEvent: Event) => {
+    if (this._ignoreNextClick) {
+      this._ignoreNextClick = false;
+
+      clickEvent.stopPropagation();
+    }
+  };
+
+  _handleDragStart(points: Array<Point>) {
+    this._ignoreNextClick = true;
+
+    this._emit("onDragStart");
+
+    this._capturePointers();
+    this._stopAnimation();
+    this._resetInertia();
+    this._lastDragPosition = null;
+    this._hasInteraction = true;
+    this._handleDrag(points);
+  }
+
+  _handleDrag(points: Array<Point>) {
+    const touch: Point = this._getOffsetByFirstPoint(points);
+    const { elastic } = this._options;
+
+    if (elastic) {
+      this._offset = this._getElasticOffset(this._offset, reverseRubberBand);
+    }
+
+    this._drag(touch, this._lastDragPosition);
+    this._offset = elastic
+      ? this._getElasticOffset(this._offset)
+      : this._sanitizeOffset(this._offset);
+    this._lastDragPosition = touch;
+  }
+
+  _getElasticOffset(offset: Point, elasticity: Elasticity = rubberBand) {
+    const { maxOverscroll, elasticResistance } = this._options;
+    const { x, y } = this._sanitizeOffset(offset);
+
+    return {
+      x: x + elasticity(offset.x - x, maxOverscroll, elasticResistance),
+      y: y + elasticity(offset.y - y, maxOverscroll, elasticResistance)
+    };
+  }
+
+  _getElasticZoomFactor(
+    zoomFactor: number,
+    elasticity: Elasticity = rubberBand
+  ) {
+    const { maxOverzoom, elasticResistance } = this._options;
+    const { minZoom, maxZoom } = this._getZoomLimits();
+
+    if (zoomFactor > maxZoom) {
+      const overzoom = zoomFactor / maxZoom - 1;
+
+      return (
+        maxZoom * (1 + elasticity(overzoom, maxOverzoom, elasticResistance))
+      );
+    } else if (zoomFactor < minZoom) {
+      const overzoom = minZoom / zoomFactor - 1;
+
+      return (
+        minZoom / (1 + elasticity(overzoom, maxOverzoom, elasticResistance))
+      );
+    }
+
+    return zoomFactor;
+  }
+
+  _resetInertia() {
+    this._dragSamples = [];
+  }
+
+  // Velocity of the offset (px/ms) by the recent drag samples
+  _getDragVelocity(): Point | null {
+    const samples = getRecentSamples(this._dragSamples, performance.now());
+
+    if (samples.length < 2) {
+      return null;
+    }
+
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const duration = last.time - first.time;
+
+    if (!duration) {
+      return null;
+    }
+
+    // The offset moves in the opposite direction to the pointer
+    return {
+      x: (first.point.x - last.point.x) / duration,
+      y: (first.point.y - last.point.y) / duration
+    };
+  }
+
+  _realizeInertia() {
+    const { inertiaFriction, inertia } = this._options;
+    const velocity = this._getDragVelocity();
+    let lastTime = performance.now();
+
+    this._dragSamples = [];
+
+    if (!inertia || !velocity) {
+      return;
+    }
+
+    let { x, y } = velocity;
+
+    if (x || y) {
+      this._stopAnimation();
+
+      const renderFrame = () => {
+        const time = performance.now();
+        const elapsed = time - lastTime;
+        const decay = getDecay(inertiaFriction, elapsed);
+        const prevOffset = { ...this._offset };
+
+        this._addOffset({
+          x: getDecayDistance(x, decay, elapsed),
+          y: getDecayDistance(y, decay, elapsed)
+        });
+        this._offset = this._sanitizeOffset(this._offset);
+
+        lastTime = time;
+        x *= decay;
+        y *= decay;
+
+        // Comes to rest
+        return (
+          (abs(x) < MIN_VELOCITY && abs(y) < MIN_VELOCITY) ||
+          comparePoints(prevOffset, this._offset)
+        );
+      };
+
+      this._animate(renderFrame, { duration: 9999, easing: linear });
+    }
+  }
+
+  _realizeZoomInertia() {
+    const { inertiaFriction, inertia } = this._options;
+    const center = this._lastZoomCenter;
+    let lastTime = performance.now();
+    const samples = getRecentSamples(this._zoomSamples, lastTime);
+
+    this._zoomSamples = [];
+
+    // A zoom factor out of limits springs back instead
+    if (
+      !inertia ||
+      !center ||
+      samples.length < 2 ||
+      this._isInsaneZoomFactor() ||
+      this._options.zoomStops.length
+    ) {
+      return;
+    }
+
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const duration = last.time - first.time;
+
+    if (!duration) {
+      return;
+    }
+
+    // The logarithmic velocity makes zooming in and out symmetric
+    let velocity = log(last.zoomFactor / first.zoomFactor) / duration;
+
+    if (abs(velocity) < MIN_ZOOM_VELOCITY) {
+      return;
+    }
+
+    const renderFrame = () => {
+      const time = performance.now();
+      const elapsed = time - lastTime;
+      const decay = getDecay(inertiaFriction, elapsed);
+      const zoomFactor = this._zoomFactor;
+
+      this._scale(exp(getDecayDistance(velocity, decay, elapsed)), center);
+
+      lastTime = time;
+      velocity *= decay;
+
+      // Comes to rest
+      return (
+        abs(velocity) < MIN_ZOOM_VELOCITY || this._zoomFactor === zoomFactor
+      );
+    };
+
+    this._animate(renderFrame, {
+      duration: 9999,
+      easing: linear,
+      callback: () => this._sanitize()
+    });
+  }
+
+  _collectInertia(points: Array<Point>) {
+    if (!this._options.inertia) {
+      return;
+    }
+
+    const time = performance.now();
+
+    this._dragSamples = getRecentSamples(this._dragSamples, time).concat({
+      point: points[0],
+      time
+    });
+  }
+
+  _collectZoomInertia() {
+    if (!this._options.inertia) {
+      return;
+    }
+
+    const time = performance.now();
+
+    this._zoomSamples = getRecentSamples(this._zoomSamples, time).concat({
+      zoomFactor: this._zoomFactor,
+      time
+    });
+  }
+
+  _isInsaneZoomFactor() {
+    const { zoomOutFactor } = this._options;
+    const { minZoom, maxZoom } = this._getZoomLimits();
+
+    return (
+      this._zoomFactor > maxZoom ||
+      this._zoomFactor < max(minZoom, zoomOutFactor)
+    );
+  }
+
+  _handleDragEnd() {
+    const isOverscrolled = this._options.elastic && this._isInsaneOffset();
+    // Fingers of a pinch are usually lifted one by one
+    const isPinchRelease =
+      getRecentSamples(this._zoomSamples, performance.now()).length > 1;
+
+    this._emit("onDragEnd");
+    this._end(this._getDragVelocity());
+
+    if (isPinchRelease) {
+      this._realizeZoomInertia();
+    } else if (!isOverscrolled) {
+      // An overscrolled element springs back instead
+      this._realizeInertia();
+    }
+  }
+
+  _handleZoomStart() {
+    this._emit("onZoomStart");
+    this._capturePointers();
+    this._stopAnimation();
+    this._lastScale = 1;
+    this._lastRotation = 0;
+    this._nthZoom = 0;
+    this._lastZoomCenter = null;
+    this._hasInteraction = true;
+    this._zoomSamples = [];
+  }
+
+  _handleZoom(points: Array<Point>, newScale: number, newRotation: number) {
+    const touchCenter = getVectorAvg(this._getOffsetPoints(points));
+    const scale = newScale / this._lastScale;
+    const rotation = normalizeAngle(newRotation - this._lastRotation);
+
+    this._lastScale = newScale;
+    this._lastRotation = newRotation;
+
+    // The first touch events are thrown away since they are not precise
+    this._nthZoom += 1;
+
+    if (this._nthZoom > 3) {
+      this._isZoomSnapPending = true;
+
+      if (this._options.elastic) {
+        const zoomFactor = this._getElasticZoomFactor(
+          this._getElasticZoomFactor(this._zoomFactor, reverseRubberBand) *
+            scale
+        );
+
+        this._scaleTo(zoomFactor, touchCenter, true);
+      } else {
+        this._scale(scale, touchCenter);
+      }
+
+      if (this._options.enableRotation) {
+        this._rotate(rotation, touchCenter);
+      }
+
+      this._drag(touchCenter, this._lastZoomCenter);
+      this._collectZoomInertia();
+    }
+
+    this._lastZoomCenter = touchCenter;
+  }
+
+  _handleZoomEnd() {
+    this._emit("onZoomEnd");
+    this._end();
+
+    if (!this._fingers) {
+      this._realizeZoomInertia();
+    }
+  }
+
+  _handleDoubleTap(points: Array<Point>) {
+    if (this._hasInteraction) {
+      return;
+    }
+
+    this._emit("onDoubleTap");
+
+    this._ignoreNextClick = true;
+
+    const { doubleTapBehavior } = this._options;
+
+    if (typeof doubleTapBehavior === "function") {
+      this._isDoubleTap = true;
+
+      return this._handleCustomDoubleTap(points[0], doubleTapBehavior);
+    }
+
+    if (
+      doubleTapBehavior === "reset" ||
+      (doubleTapBehavior === "toggle" && !isCloseTo(this._zoomFactor, 1))
+    ) {
+      this._isDoubleTap = true;
+
+      return this._resetAnimation();
+    }
+
+    const zoomFactor = this._getDoubleTapZoomFactor();
+    const startZoomFactor = this._zoomFactor;
+    const updateProgress = (progress: number) => {
+      this._scaleTo(
+        startZoomFactor + progress * (zoomFactor - startZoomFactor),
+        center
+      );
+    };
+    let center = this._getOffsetByFirstPoint(points);
+
+    this._isDoubleTap = true;
+
+    if (startZoomFactor > zoomFactor) {
+      center = this._getCurrentZoomCenter();
+    }
+
+    return this._animate(updateProgress, {
+      callback: () =>
+        this._isInsaneOffset() ? this._sanitizeOffsetAnimation() : undefined
+    });
+  }
+
+  _handleCustomDoubleTap(point: Point, getTarget: DoubleTapHandler) {
+    const target = getTarget(this.screenToContent(point), {
+      ...this.getTransform(),
+      zoomFactor: this._zoomFactor
+    });
+
+    if (!target) {
+      return;
+    }
+
+    const initialZoomFactor = this._getInitialZoomFactor();
+
+    // `alignCenter` uses coordinates of the fitted element
+    return this.alignCenter({
+      x: target.x * initialZoomFactor,
+      y: target.y * initialZoomFactor,
+      scale: target.scale
+    });
+  }
+
+  // Animates back to the initial fit
+  _resetAnimation(): Promise<AnimationStatus> {
+    const startZoomFactor = this._zoomFactor;
+    const startRotation = this._rotation;
+    const startOffset = { ...this._offset };
+    const targetOffset = this._initialOffset;
+    const updateProgress = (progress: number) => {
+      const x = startOffset.x + progress * (targetOffset.x - startOffset.x);
+      const y = startOffset.y + progress * (targetOffset.y - startOffset.y);
+
+      this._zoomFactor = startZoomFactor + progress * (1 - startZoomFactor);
+      this._rotation = startRotation * (1 - progress);
+      this._offset = { x, y };
+    };
+
+    return this._animate(updateProgress);
+  }
+
+  _getDoubleTapZoomFactor() {
+    const stops = this._getZoomStops();
+
+    if (!stops.length) {
+      return this._zoomFactor + this._toZoomFactor(this._options.tapZoomFactor);
+    }
+
+    const stop = this._getNextZoomStop(1);
+
+    // The last stop is followed by the first one
+    return stop === null ? stops[0] : stop;
+  }
+
+  // Zoom factors of the stops in ascending order
+  _getZoomStops(): Array<number> {
+    const { zoomStops } = this._options;
+    const { minZoom, maxZoom } = this._getZoomLimits();
+
+    if (!zoomStops.length) {
+      return [];
+    }
+
+    const initialZoomFactor = this._getInitialZoomFactor();
+    const getZoomFactor = (stop: ZoomStop): number => {
+      switch (stop) {
+        case "fit-page":
+          return this._getFitScale("contain") / initialZoomFactor;
+        case "fit-width":
+          return this._getFitScale("width") / initialZoomFactor;
+        case "fit-height":
+          return this._getFitScale("height") / initialZoomFactor;
+        default:
+          return this._toZoomFactor(stop);
+      }
+    };
+
+    return zoomStops
+      .map(stop => clamp(minZoom, maxZoom, getZoomFactor(stop)))
+      .sort((a, b) => a - b);
+  }
+
+  _getNearestZoomStop(): number | null {
+    const zoomFactor = this._zoomFactor;
+    // Zooming is multiplicative, so the distance is a ratio
+    const getDistance = (stop: number) => abs(log(stop / zoomFactor));
+
+    return this._getZoomStops().reduce(
+      (nearest: number | null, stop) =>
+        nearest === null || getDistance(stop) < getDistance(nearest)
+          ? stop
+          : nearest,
+      null
+    );
+  }
+
+  // The closest stop above (`direction > 0`) or below the zoom factor
+  _getNextZoomStop(direction: number): number | null {
+    const zoomFactor = this._zoomFactor;
+    const stops = this._getZoomStops().filter(
+      stop =>
+        !isCloseTo(stop, zoomFactor) &&
+        (direction > 0 ? stop > zoomFactor : stop < zoomFactor)
+    );
+
+    if (!stops.length) {
+      return null;
+    }
+
+    return direction > 0 ? stops[0] : stops[stops.length - 1];
+  }
+
+  _zoomToNextStop(direction: number): Promise<AnimationStatus> {
+    const { tapZoomFactor, zoomStops } = this._options;
+    const { minZoom, maxZoom } = this._getZoomLimits();
+    const { width, height } = this._getContainerRect();
+    const step = direction * this._toZoomFactor(tapZoomFactor);
+    const zoomFactor = zoomStops.length
+      ? this._getNextZoomStop(direction)
+      : clamp(minZoom, maxZoom, this._zoomFactor + step);
+
+    if (zoomFactor === null) {
+      return Promise.resolve<AnimationStatus>("finished");
+    }
+
+    return this._zoomToAnimation(zoomFactor, { x: width / 2, y: height / 2 });
+  }
+
+  _computeInitialOffset() {
+    const rect = this._getContainerRect();
+    const { width, height } = this._getChildSize();
+    const align = getAlignFactors(this._options.initialAlign);
+    const x = (width * this._getInitialZoomFactor() - rect.width) * align.x;
+    const y = (height * this._getInitialZoomFactor() - rect.height) * align.y;
+
+    this._initialOffset = { x, y };
+  }
+
+  _resetOffset() {
+    this._offset = { ...this._initialOffset };
+  }
+
+  _setupOffsets() {
+    if (this._options.setOffsetsOnce && this._isOffsetsSet) {
+      return;
+    }
+
+    this._isOffsetsSet = true;
+
+    this._computeInitialOffset();
+    this._resetOffset();
+  }
+
+  _sanitizeOffset(offset: Point) {
+    const rect = this._getContainerRect();
+    const { width, height } = this._getChildSize();
+    const scale = this._getInitialZoomFactor() * this._zoomFactor;
+    // Bounding box of the rotated element relative to its origin
+    const bounds = getRotatedBounds(
+      width * scale,
+      height * scale,
+      this._rotation
+    );
+    const elWidth = bounds.width;
+    const elHeight = bounds.height;
+    const maxX = elWidth - rect.width + this._options.horizontalPadding;
+    const maxY = elHeight - rect.height + this._options.verticalPadding;
+    const maxOffsetX = max(maxX, 0);
+    const maxOffsetY = max(maxY, 0);
+    const minOffsetX = min(maxX, 0) - this._options.horizontalPadding;
+    const minOffsetY = min(maxY, 0) - this._options.verticalPadding;
+
+    return {
+      x: bounds.x + clamp(minOffsetX, maxOffsetX, offset.x - bounds.x),
+      y: bounds.y + clamp(minOffsetY, maxOffsetY, offset.y - bounds.y)
+    };
+  }
+
+  alignCenter(options: ScaleToOptions): Promise<AnimationStatus> {
+    const { x, y, scale, rotation, animated, duration, easing } = {
+      duration: 250,
+      animated: true,
+      rotation: this._rotation,
+      easing: this._options.easing,
+      ...options
+    };
+
+    const startZoomFactor = this._zoomFactor;
+    const startRotation = this._rotation;
+    const startOffset = { ...this._offset };
+    const rect = this._getContainerRect();
+    const containerCenter = { x: rect.width / 2, y: rect.height / 2 };
+
+    this._zoomFactor = 1;
+    this._rotation = 0;
+    this._offset = { x: -(containerCenter.x - x), y: -(containerCenter.y - y) };
+
+    this._scaleTo(this._toZoomFactor(scale), containerCenter);
+    this._rotateTo(rotation, containerCenter);
+    this._stopAnimation();
+
+    if (!animated) {
+      this._update();
+
+      return Promise.resolve<AnimationStatus>("finished");
+    }
+
+    const diffZoomFactor = this._zoomFactor - startZoomFactor;
+    const diffRotation = this._rotation - startRotation;
+    const diffOffset = {
+      x: this._offset.x - startOffset.x,
+      y: this._offset.y - startOffset.y
+    };
+
+    this._zoomFactor = startZoomFactor;
+    this._rotation = startRotation;
+    this._offset = { ...startOffset };
+
+    const updateFrame = (progress: number) => {
+      const x = startOffset.x + diffOffset.x * progress;
+      const y = startOffset.y + diffOffset.y * progress;
+
+      this._zoomFactor = startZoomFactor + diffZoomFactor * progress;
+      this._rotation = startRotation + diffRotation * progress;
+      this._offset = this._sanitizeOffset({ x, y });
+      this._update();
+    };
+
+    return this._animate(updateFrame, {
+      callback: () => this._sanitize(),
+      duration,
+      easing
+    });
+  }
+
+  scaleTo(options: ScaleToOptions): Promise<AnimationStatus> {
+    const { x, y, scale, rotation, animated, duration, easing } = {
+      duration: 250,
+      animated: true,
+      rotation: this._rotation,
+      easing: this._options.easing,
+      ...options
+    };
+
+    const startZoomFactor = this._zoomFactor;
+    const startRotation = this._rotation;
+    const startOffset = { ...this._offset };
+
+    this._zoomFactor = 1;
+    this._rotation = 0;
+    this._offset = { x: 0, y: 0 };
+
+    this._scaleTo(this._toZoomFactor(scale), { x, y });
+    this._rotateTo(rotation, { x, y });
+    this._stopAnimation();
+
+    if (!animated) {
+      this._update();
+
+      return Promise.resolve<AnimationStatus>("finished");
+    }
+
+    const diffZoomFactor = this._zoomFactor - startZoomFactor;
+    const diffRotation = this._rotation - startRotation;
+    const diffOffset = {
+      x: this._offset.x - startOffset.x,
+      y: this._offset.y - startOffset.y
+    };
+
+    this._zoomFactor = startZoomFactor;
+    this._rotation = startRotation;
+    this._offset = { ...startOffset };
+
+    const updateFrame = (progress: number) => {
+      const x = startOffset.x + diffOffset.x * progress;
+      const y = startOffset.y + diffOffset.y * progress;
+
+      this._zoomFactor = startZoomFactor + diffZoomFactor * progress;
+      this._rotation = startRotation + diffRotation * progress;
+      this._offset = { x, y };
+
+      this._update();
+    };
+
+    return this._animate(updateFrame, {
+      callback: () => this._sanitize(),
+      duration,
+      easing
+    });
+  }
+
+  _scaleTo(zoomFactor: number, center: Point, elastic: boolean = false) {
+    this._scale(zoomFactor / this._zoomFactor, center, elastic);
+  }
+
+  _scale(scale: number, center: Point, elastic: boolean = false) {
+    scale = this._scaleZoomFactor(scale, elastic);
+
+    this._addOffset({
+      x: (scale - 1) * (center.x + this._offset.x),
+      y: (scale - 1) * (center.y + this._offset.y)
+    });
+
+    this._emit("onZoomUpdate");
+  }
+
+  _rotateTo(rotation: number, center: Point) {
+    this._rotate(rotation - this._rotation, center);
+  }
+
+  _rotate(angle: number, center: Point) {
+    const { x, y } = rotatePoint(
+      { x: center.x + this._offset.x, y: center.y + this._offset.y },
+      angle
+    );
+
+    this._rotation += angle;
+    this._offset = { x: x - center.x, y: y - center.y };
+  }
+
+  _scaleZoomFactor(scale: number, elastic: boolean = false) {
+    const originalZoomFactor = this._zoomFactor;
+    this._zoomFactor *= scale;
+
+    // An elastic zoom factor is allowed to overshoot the limits
+    if (!elastic) {
+      const { minZoom, maxZoom } = this._getZoomLimits();
+
+      this._zoomFactor = clamp(minZoom, maxZoom, this._zoomFactor);
+    }
+
+    return this._zoomFactor / originalZoomFactor;
+  }
+
+  _canDrag() {
+    return this._options.draggableUnZoomed || !isCloseTo(this._zoomFactor, 1);
+  }
+
+  _drag(center: Point, lastCenter: Point | null) {
+    if (lastCenter) {
+      const y = -(center.y - lastCenter.y);
+      const x = -(center.x - lastCenter.x);
+
+      if (!this._options.lockDragAxis) {
+        this._addOffset({
+          x,
+          y
+        });
+      } else {
+        // lock scroll to position that was changed the most
+        if (abs(x) > abs(y)) {
+          this._addOffset({
+            x,
+            y: 0
+          });
+        } else {
+          this._addOffset({
+            y,
+            x: 0
+          });
+        }
+      }
+
+      this._emit("onDragUpdate");
+    }
+  }
+
+  _addOffset(offset: Point) {
+    const { x, y } = this._offset;
+
+    this._offset = {
+      x: x + offset.x,
+      y: y + offset.y
+    };
+  }
+
+  // `velocity` of the offset at the end of a gesture lets a spring start from it
+  _sanitize(velocity: Point | null = null): Promise<AnimationStatus> {
+    const { zoomOutFactor, zoomStops } = this._options;
+    const { minZoom, maxZoom } = this._getZoomLimits();
+    const stop = this._isZoomSnapPending ? this._getNearestZoomStop() : null;
+    const limitedZoomFactor = clamp(minZoom, maxZoom, this._zoomFactor);
+
+    this._isZoomSnapPending = false;
+
+    if (stop !== null && !isSameValue(stop, this._zoomFactor)) {
+      return this._zoomToAnimation(stop);
+    } else if (this._zoomFactor > maxZoom) {
+      return this._zoomToAnimation(limitedZoomFactor);
+    } else if (!zoomStops.length && this._zoomFactor < zoomOutFactor) {
+      return this._zoomOutAnimation(velocity);
+    } else if (this._zoomFactor < minZoom) {
+      return this._zoomToAnimation(limitedZoomFactor);
+    } else if (this._isInsaneOffset()) {
+      return this._sanitizeOffsetAnimation(velocity);
+    }
+
+    return Promise.resolve<AnimationStatus>("finished");
+  }
+
+  _isInsaneOffset() {
+    const offset = this._offset;
+    const sanitizedOffset = this._sanitizeOffset(offset);
+
+    return sanitizedOffset.x !== offset.x || sanitizedOffset.y !== offset.y;
+  }
+
+  _sanitizeOffsetAnimation(
+    velocity: Point | null = null
+  ): Promise<AnimationStatus> {
+    const targetOffset = this._sanitizeOffset(this._offset);
+    const startOffset: Point = { ...this._offset };
+    const distance = {
+      x: targetOffset.x - startOffset.x,
+      y: targetOffset.y - startOffset.y
+    };
+    const length = distance.x * distance.x + distance.y * distance.y;
+    const updateProgress = (progress: number) => {
+      const x = startOffset.x + progress * distance.x;
+      const y = startOffset.y + progress * distance.y;
+
+      this._offset = { x, y };
+      this._update();
+    };
+
+    return this._animate(updateProgress, {
+      // Projection of the velocity on the way to the target
+      velocity:
+        velocity && length
+          ? (velocity.x * distance.x + velocity.y * distance.y) / length
+          : 0
+    });
+  }
+
+  _zoomOutAnimation(velocity: Point | null = null): Promise<AnimationStatus> {
+    if (this._zoomFactor === 1) {
+      return this._isInsaneOffset()
+        ? this._sanitizeOffsetAnimation(velocity)
+        : Promise.resolve<AnimationStatus>("finished");
+    }
+
+    const startZoomFactor = this._zoomFactor;
+    const zoomFactor = 1;
+    const center = this._getCurrentZoomCenter();
+    const updateProgress = (progress: number) => {
+      const scaleFactor =
+        startZoomFactor + progress * (zoomFactor - startZoomFactor);
+
+      this._scaleTo(scaleFactor, center, this._options.elastic);
+    };
+
+    return this._animate(updateProgress, {
+      // A rotated element can still be out of bounds after zooming out
+      callback: () =>
+        this._isInsaneOffset() ? this._sanitizeOffsetAnimation() : undefined
+    });
+  }
+
+  _getLastZoomCenter(): Point {
+    const rect = this._getContainerRect();
+
+    return this._lastZoomCenter || { x: rect.width / 2, y: rect.height / 2 };
+  }
+
+  // The zoom factor can be out of limits at the start (e.g. elastic over-zoom)
+  _zoomToAnimation(
+    zoomFactor: number,
+    center: Point = this._getLastZoomCenter()
+  ): Promise<AnimationStatus> {
+    const startZoomFactor = this._zoomFactor;
+    const updateProgress = (progress: number) => {
+      const scaleFactor =
+        startZoomFactor + progress * (zoomFactor - startZoomFactor);
+
+      this._scaleTo(scaleFactor, center, true);
+    };
+
+    return this._animate(updateProgress, {
+      callback: () =>
+        this._isInsaneOffset() ? this._sanitizeOffsetAnimation() : undefined
+    });
+  }
+
+  _getInitialZoomFactor() {
+    return this._initialZoomFactor;
+  }
+
+  // Converts a scale of options into the zoom factor
+  _toZoomFactor(scale: number): number {
+    return this._options.absoluteScale
+      ? scale / this._getInitialZoomFactor()
+      : scale;
+  }
+
+  // Scale of the content at its native resolution
+  _getNativeScale(): number {
+    const content = this._getContent();
+    const { width } = this._getChildSize();
+
+    // `instanceof HTMLImageElement` is false for images of iframes
+    if (content && content.tagName === "IMG") {
+      const { naturalWidth } = content as HTMLImageElement;
+
+      if (naturalWidth && width) {
+        return naturalWidth / width;
+      }
+    }
+
+    return 1;
+  }
+
+  _getZoomLimits(): { minZoom: number; maxZoom: number } {
+    const { limitToNativeSize } = this._options;
+    const minZoom = this._toZoomFactor(this._options.minZoom);
+    let maxZoom = this._toZoomFactor(this._options.maxZoom);
+
+    if (limitToNativeSize) {
+      // The initial zoom factor is kept even if the content is upscaled by fit
+      const nativeZoom = this._getNativeScale() / this._getInitialZoomFactor();
+
+      maxZoom = min(maxZoom, max(nativeZoom, 1));
+    }
+
+    return { minZoom: min(minZoom, maxZoom), maxZoom };
+  }
+
+  _getCurrentZoomCenter() {
+    const { x, y } = this._offset;
+    const offsetLeft = x - this._initialOffset.x;
+    const offsetTop = y - this._initialOffset.y;
+
+    return {
+      x: -1 * x - offsetLeft / (1 / this._zoomFactor - 1),
+      y: -1 * y - offsetTop / (1 / this._zoomFactor - 1)
+    };
+  }
+
+  _getOffsetByFirstPoint(points: Array<Point>): Point {
+    return this._getOffsetPoints(points)[0];
+  }
+
+  _getOffsetPoints(points: Array<Point>): Array<Point> {
+    const { x: posLeft, y: posTop } = this._getContainerPagePosition();
+
+    return points.map(({ x, y }) => ({
+      x: x - posLeft,
+      y: y - posTop
+    }));
+  }
+
+  _getContainerPagePosition(): Point {
+    const doc = this._getDocument();
+    const html = this._options._html || doc.documentElement;
+    const body = this._options._body || doc.body;
+    const { top, left } = this._getContainerRect();
+    const scrollTop = html.scrollTop || body.scrollTop;
+    const scrollLeft = html.scrollLeft || body.scrollLeft;
+
+    return { x: left + scrollLeft, y: top + scrollTop };
+  }
+
+  // `frameFn` can finish the animation before its duration (e.g. inertia)
+  // by returning `true`
+  _animate(
+    frameFn: (a: number) => boolean | void,
+    options?: AnimateOptions
+  ): Promise<AnimationStatus> {
+    const startTime = performance.now();
+    const { easing, callback, duration, velocity } = {
+      easing: this._options.easing,
+      callback: () => {},
+      duration: this._options.animationDuration,
+      velocity: 0,
+      ...options
+    };
+    const timeline = createTimeline(easing, duration, velocity);
+
+    // Only one animation can be in progress
+    this._stopAnimation();
+
+    return new Promise(resolve => {
+      const finish = () => {
+        this._resolveAnimation = null;
+        this._stopAnimation();
+
+        // A follow-up animation (e.g. sanitize) is a part of this one
+        const followUp = callback();
+
+        // Props that were skipped during the animation
+        this._applyControlledTransform();
+        this._update();
+        resolve(followUp || "finished");
+      };
+
+      const renderFrame = () => {
+        // The animation was stopped or replaced by another one
+        if (this._resolveAnimation !== resolve) {
+          return;
+        }
+
+        const { progress, finished } = timeline(performance.now() - startTime);
+
+        if (finished) {
+          frameFn(1);
+          finish();
+        } else if (frameFn(progress)) {
+          finish();
+        } else {
+          this._update({ isAnimation: true });
+          requestAnimationFrame(renderFrame);
+        }
+      };
+
+      this._inAnimation = true;
+      this._resolveAnimation = resolve;
+
+      requestAnimationFrame(renderFrame);
+    });
+  }
+
+  _stopAnimation() {
+    const resolve = this._resolveAnimation;
+
+    this._inAnimation = false;
+    this._resolveAnimation = null;
+
+    if (resolve) {
+      resolve("cancelled");
+    }
+  }
+
+  _end(velocity: Point | null = null) {
+    this._hasInteraction = false;
+    this._sanitize(velocity);
+    // Props that were skipped during the gesture
+    this._applyControlledTransform();
+    this._update();
+  }
+
+  _getContainer(): HTMLElement {
+    return this._container as HTMLElement;
+  }
+
+  // The container can be in an iframe
+  _getDocument(): Document {
+    return this._getContainer().ownerDocument;
+  }
+
+  _getWindow(): Window {
+    return this._getDocument().defaultView || window;
+  }
+
+  _getContainerRect(): ClientRect {
+    if (!this._containerRect) {
+      this._containerRect = this._getContainer().getBoundingClientRect();
+    }
+
+    return this._containerRect;
+  }
+
+  _getChildSize(): { width: number; height: number } {
+    if (!this._childSize) {
+      this._childSize = getElementSize(this._getContent());
+    }
+
+    return this._childSize;
+  }
+
+  _invalidateLayout() {
+    this._containerRect = null;
+    this._childSize = null;
+  }
+
+  // Scroll of any ancestor moves the container
+  // Scroll events don't leave a shadow tree, so the roots of the shadow trees
+  // around the container are listened as well as the document
+  _getScrollRoots(): Array<Document | ShadowRoot> {
+    const roots: Array<Document | ShadowRoot> = [this._getDocument()];
+    let node: Node = this._getContainer();
+
+    while (node.getRootNode) {
+      const root = node.getRootNode();
+
+      if (root.nodeType !== Node.DOCUMENT_FRAGMENT_NODE) {
+        break;
+      }
+
+      roots.push(root as ShadowRoot);
+      node = (root as ShadowRoot).host;
+    }
+
+    return roots;
+  }
+
+  _onScroll = () => {
+    this._containerRect = null;
+  };
+
+  _getContent(): HTMLElement | null {
+    const div = this._container;
+
+    return this._content || ((div && div.firstElementChild) as HTMLElement);
+  }
+
+  // The direct mode moves the element without re-renders of the owner
+  _applyTransform(updateAction: UpdateAction) {
+    const content = this._getContent();
+
+    if (!content) {
+      return;
+    }
+
+    content.style.transform = this._makeTransformValue(updateAction);
+    // The element has own layer only while it moves
+    content.style.willChange =
+      this.isInteracting() || this.isAnimating() ? "transform" : "";
+  }
+
+  // Scale of the content that fits it into the container
+  _getFitScale(fit: Fit): number {
+    const rect = this._getContainerRect();
+    const size = this._getChildSize();
+    const xZoomFactor = rect.width / size.width;
+    const yZoomFactor = rect.height / size.height;
+
+    switch (fit) {
+      case "cover":
+        return max(xZoomFactor, yZoomFactor);
+      case "width":
+        return xZoomFactor;
+      case "height":
+        return yZoomFactor;
+      case "none":
+        return 1;
+      default:
+        return min(xZoomFactor, yZoomFactor);
+    }
+  }
+
+  _updateInitialZoomFactor() {
+    this._initialZoomFactor = this._getFitScale(this._options.fit);
+  }
+
+  _onResize = () => {
+    this._invalidateLayout();
+    this._updateInitialZoomFactor();
+    this._setupOffsets();
+    this._applyControlledTransform();
+    this._update();
+  };
+
+  getTransform(): UpdateAction {
+    const scale = this._getInitialZoomFactor() * this._zoomFactor;
+
+    return {
+      scale,
+      x: -this._offset.x / scale,
+      y: -this._offset.y / scale,
+      rotation: this._rotation
+    };
+  }
+
+  _getControlledTransform(): UpdateAction | null {
+    const { scale, x = 0, y = 0, rotation = this._rotation } = this._options;
+
+    return typeof scale === "number" ? { scale, x, y, rotation } : null;
+  }
+
+  _applyControlledTransform() {
+    const transform = this._getControlledTransform();
+
+    // Don't fight with the user or an animation, the props are reconciled
+    // when they end. The owner will receive actual values through `onChange`.
+    // Values that were passed to `onChange` are already outdated
+    if (
+      !transform ||
+      this._hasInteraction ||
+      this._inAnimation ||
+      (this._lastChange && isSameTransform(transform, this._lastChange)) ||
+      isSameTransform(transform, this.getTransform())
+    ) {
+      return;
+    }
+
+    const { scale, x, y, rotation } = transform;
+
+    this._zoomFactor = scale / this._getInitialZoomFactor();
+    this._offset = { x: -x * scale, y: -y * scale };
+    this._rotation = rotation || 0;
+    this._update();
+  }
+
+  _bindEvents() {
+    const div = this._getContainer();
+    const win: ObserverWindow = this._getWindow();
+
+    if (win.ResizeObserver) {
+      this._containerObserver = new win.ResizeObserver(this._onResize);
+      this._containerObserver.observe(div);
+    } else {
+      win.addEventListener("resize", this._onResize);
+    }
+
+    if (win.MutationObserver) {
+      const contentObserver = new win.MutationObserver(this._onContentChange);
+
+      contentObserver.observe(div, { childList: true, subtree: true });
+      this._contentObserver = contentObserver;
+    }
+
+    this._observeContent();
+
+    this._scrollRoots = this._getScrollRoots();
+    this._scrollRoots.forEach(root =>
+      root.addEventListener("scroll", this._onScroll, true)
+    );
+
+    this._handlers.forEach(([eventName, fn, target]) => {
+      (target || div).addEventListener(eventName, fn, true);
+    });
+  }
+
+  // Size changes of the content element and loads of the images are observed,
+  // returns `false` when they are already observed
+  _observeContent(): boolean {
+    const content = this._getContent();
+    const images = Array.from(this._getContainer().querySelectorAll("img"));
+    const observedImages = this._observedImages;
+
+    if (
+      content === this._observedContent &&
+      images.length === observedImages.length &&
+      images.every((image, i) => image === observedImages[i])
+    ) {
+      return false;
+    }
+
+    this._unobserveContent();
+    this._observedContent = content;
+    this._observedImages = images;
+
+    if (this._containerObserver && content) {
+      this._containerObserver.observe(content);
+    }
+
+    images.forEach(image => image.addEventListener("load", this._onResize));
+
+    return true;
+  }
+
+  _unobserveContent() {
+    if (this._containerObserver && this._observedContent) {
+      this._containerObserver.unobserve(this._observedContent);
+    }
+
+    this._observedImages.forEach(image =>
+      image.removeEventListener("load", this._onResize)
+    );
+    this._observedContent = null;
+    this._observedImages = [];
+  }
+
+  // A replaced child (e.g. rendered with another `key`) is measured again,
+  // other mutations (e.g. of the live region) are ignored
+  _onContentChange = () => {
+    if (this._observeContent()) {
+      this._onResize();
+    }
+  };
+
+  _unSubscribe() {
+    const div = this._getContainer();
+
+    this._unobserveContent();
+
+    if (this._contentObserver) {
+      this._contentObserver.disconnect();
+      this._contentObserver = null;
+    }
+
+    if (this._containerObserver) {
+      this._containerObserver.disconnect();
+      this._containerObserver = null;
+    }
+
+    this._getWindow().removeEventListener("resize", this._onResize);
+    this._scrollRoots.forEach(root =>
+      root.removeEventListener("scroll", this._onScroll, true)
+    );
+    this._scrollRoots = [];
+
+    this._handlers.forEach(([eventName, fn, target]) => {
+      (target || div).removeEventListener(eventName, fn, true);
+    });
+  }
+
+  _update(options?: { isAnimation: boolean }) {
+    if (this._updatePlaned) {
+      return;
+    }
+
+    const updateFrame = () => {
+      const updateAction = this.getTransform();
+      const controlledTransform = this._getControlledTransform();
+
+      if (this._container) {
+        this._applyTouchAction();
+
+        if (this._options.applyTransform) {
+          this._applyTransform(updateAction);
+        }
+      }
+
+      this._options.onUpdate(updateAction);
+      this._listeners.forEach(listener => listener(updateAction));
+
+      if (
+        !controlledTransform ||
+        !isSameTransform(updateAction, controlledTransform)
+      ) {
+        this._lastChange = updateAction;
+        this._options.onChange(updateAction);
+      }
+    };
+
+    if (options && options.isAnimation) {
+      return updateFrame();
+    }
+
+    this._updatePlaned = true;
+
+    requestAnimationFrame(() => {
+      this._updatePlaned = false;
+
+      updateFrame();
+    });
+  }
+
+  _emit(name: GestureCallbackName) {
+    const callback: GestureCallback = this._options[name];
+
+    // The payload isn't needed for default callbacks
+    if (callback !== noup) {
+      callback(this._createGestureEvent(name));
+    }
+  }
+
+  _createGestureEvent(name: GestureCallbackName): GestureEvent {
+    const transform = this.getTransform();
+    const prevTransform = this._lastGestureTransform || transform;
+    // Coordinates are unknown until the controller is attached
+    const pageCenter = this._container ? this._getGesturePageCenter() : null;
+    const velocity = this._getDragVelocity() || zeroPoint;
+
+    this._lastGestureTransform = transform;
+
+    return {
+      type: (name.charAt(2).toLowerCase() + name.slice(3)) as GestureEventType,
+      nativeEvent: this._nativeEvent,
+      scale: transform.scale,
+      x: transform.x,
+      y: transform.y,
+      rotation: transform.rotation || 0,
+      deltaScale: transform.scale / prevTransform.scale,
+      deltaX: transform.x - prevTransform.x,
+      deltaY: transform.y - prevTransform.y,
+      center: pageCenter
+        ? this._getOffsetByFirstPoint([pageCenter])
+        : { ...zeroPoint },
+      contentCenter: pageCenter
+        ? this.screenToContent(pageCenter)
+        : { ...zeroPoint },
+      pointers: this._fingers,
+      // Drag velocity is the velocity of the offset
+      velocity: { x: -velocity.x, y: -velocity.y }
+    };
+  }
+
+  _getGesturePageCenter(): Point {
+    if (this._gesturePoints) {
+      return getVectorAvg(this._gesturePoints);
+    }
+
+    const rect = this._getContainerRect();
+    const position = this._getContainerPagePosition();
+
+    return { x: position.x + rect.width / 2, y: position.y + rect.height / 2 };
+  }
+
+  // Keeps the event and its points while it is handled
+  _handlerWithEvent(fn: (event: Event, points: Array<Point>) => void) {
+    return (event: Event, points: Array<Point>) => {
+      this._nativeEvent = event;
+
+      if (points.length) {
+        this._gesturePoints = points;
+      }
+
+      fn(event, points);
+      this._nativeEvent = null;
+    };
+  }
+
+  _handlerIfEnable(fn: (...a: any) => void) {
+    return (...args: Array<any>) => {
+      if (this._options.enabled) {
+        fn(...args);
+      }
+    };
+  }
+
+  _setInteraction(newInteraction: Interaction | null, points: Array<Point>) {
+    const interaction = this._interaction;
+
+    if (interaction !== newInteraction) {
+      if (interaction && !newInteraction) {
+        if (isZoomInteraction(interaction)) {
+          this._handleZoomEnd();
+        } else if (isDragInteraction(interaction)) {
+          this._handleDragEnd();
+        }
+      }
+
+      if (isZoomInteraction(newInteraction)) {
+        this._handleZoomStart();
+      } else if (isDragInteraction(newInteraction)) {
+        this._handleDragStart(points);
+      }
+    }
+
+    this._interaction = newInteraction;
+  }
+
+  _updateInteraction(points: Array<Point>) {
+    const fingers = this._fingers;
+
+    if (fingers === 2) {
+      return this._setInteraction("zoom", points);
+    }
+
+    if (fingers === 1 && this._canDrag()) {
+      return this._setInteraction("drag", points);
+    }
+
+    this._setInteraction(null, points);
+  }
+
+  _startTap(points: Array<Point>) {
+    this._cancelTap();
+
+    if (this._fingers !== 1 || this._isDoubleTap) {
+      return;
+    }
+
+    this._tapStart = points[0];
+
+    // Without a listener a slow press stays a click
+    if (this._options.onLongPress !== noup) {
+      this._longPressTimeOut = setTimeout(
+        () => this._handleLongPress(),
+        this._options.longPressDelay
+      );
+    }
+  }
+
+  _cancelTap() {
+    this._tapStart = null;
+
+    if (this._longPressTimeOut !== null) {
+      clearTimeout(this._longPressTimeOut);
+      this._longPressTimeOut = null;
+    }
+  }
+
+  _isTapMove(points: Array<Point>): boolean {
+    return (
+      !!this._tapStart &&
+      points.length === 1 &&
+      getDistance(this._tapStart, points[0]) < this._options.tapThreshold
+    );
+  }
+
+  _handleLongPress() {
+    this._tapStart = null;
+    this._longPressTimeOut = null;
+    // The release after a long press isn't a click
+    this._ignoreNextClick = true;
+
+    this._emit("onLongPress");
+  }
+
+  // A drag towards an edge the content can't move past
+  // (or any drag at the initial fit) is left to a parent scroller
+  _shouldChainScroll(points: Array<Point>): boolean {
+    const { scrollChaining } = this._options;
+    const lastPoint = this._lastDragPoint;
+
+    if (
+      scrollChaining === "none" ||
+      !lastPoint ||
+      points.length !== 1 ||
+      !this._canDrag()
+    ) {
+      return false;
+    }
+
+    const delta = {
+      x: points[0].x - lastPoint.x,
+      y: points[0].y - lastPoint.y
+    };
+    const axis = abs(delta.x) > abs(delta.y) ? "x" : "y";
+
+    if (
+      !delta[axis] ||
+      (scrollChaining !== "both" && scrollChaining !== axis)
+    ) {
+      return false;
+    }
+
+    if (isCloseTo(this._zoomFactor, 1)) {
+      return true;
+    }
+
+    const offset = this._offset[axis];
+    const nextOffset = this._sanitizeOffset({
+      ...this._offset,
+      [axis]: offset - delta[axis]
+    })[axis];
+
+    return isSameValue(offset, nextOffset);
+  }
+
+  // The browser takes over only the first move of a gesture on axes allowed
+  // by `touch-action`, otherwise the controller scrolls the parent itself
+  _startScrollChaining(points: Array<Point>) {
+    const isNative = this._firstMove && this._getTouchAction() !== "none";
+
+    this._isScrollChained = true;
+    this._scrollParent = isNative ? null : this._getScrollParent();
+    this._chainScroll(points);
+  }
+
+  _chainScroll(points: Array<Point>) {
+    const parent = this._scrollParent;
+    const lastPoint = this._lastDragPoint;
+
+    if (parent && lastPoint && points.length === 1) {
+      const { scrollChaining } = this._options;
+
+      if (scrollChaining !== "y") {
+        parent.scrollLeft -= points[0].x - lastPoint.x;
+      }
+
+      if (scrollChaining !== "x") {
+        parent.scrollTop -= points[0].y - lastPoint.y;
+      }
+    }
+
+    this._lastDragPoint = points.length === 1 ? points[0] : null;
+  }
+
+  // The nearest ancestor scrollable on a chained axis, the page otherwise
+  _getScrollParent(): Element {
+    const { scrollChaining } = this._options;
+    const doc = this._getDocument();
+    const win = this._getWindow();
+    let element = this._getContainer().parentElement;
+
+    while (element && element !== doc.body) {
+      const { overflowX, overflowY } = win.getComputedStyle(element);
+
+      if (
+        (scrollChaining !== "y" &&
+          isScrollable(overflowX, element.scrollWidth, element.clientWidth)) ||
+        (scrollChaining !== "x" &&
+          isScrollable(overflowY, element.scrollHeight, element.clientHeight))
+      ) {
+        return element;
+      }
+
+      element = element.parentElement;
+    }
+
+    return doc.scrollingElement || doc.documentElement;
+  }
+
+  // Chained axes are allowed to the browser while any drag of them is handed off
+  _getTouchAction(): string | null {
+    const { scrollChaining } = this._options;
+
+    if (scrollChaining === "none") {
+      return null;
+    }
+
+    return isCloseTo(this._zoomFactor, 1)
+      ? chainedTouchActions[scrollChaining]
+      : "none";
+  }
+
+  _applyTouchAction() {
+    const touchAction = this._getTouchAction();
+
+    if (touchAction !== this._touchAction) {
+      this._getContainer().style.touchAction = touchAction || "";
+      this._touchAction = touchAction;
+    }
+  }
+
+  _detectDoubleTap(event: Event, points: Array<Point>) {
+    const time = performance.now();
+
+    if (this._fingers > 1) {
+      this._lastTouchStart = -Infinity;
+    }
+
+    if (time - this._lastTouchStart < this._options.doubleTapDelay) {
+      cancelEvent(event);
+
+      this._handleDoubleTap(points);
+
+      if (isZoomInteraction(this._interaction)) {
+        this._handleZoomEnd();
+      } else if (isDragInteraction(this._interaction)) {
+        this._handleDragEnd();
+      }
+    } else {
+      this._isDoubleTap = false;
+    }
+
+    if (this._fingers === 1) {
+      this._lastTouchStart = time;
+    }
+  }
+
+  _handlerOnEnd = this._handlerIfEnable(
+    this._handlerWithEvent((_: Event, points: Array<Point>) => {
+      this._fingers = points.length;
+      this._updateInteraction(points);
+
+      if (this._tapStart) {
+        this._cancelTap();
+        this._emit("onTap");
+      }
+    })
+  );
+
+  _handlerOnStart = this._handlerIfEnable(
+    this._handlerWithEvent((event: Event, points: Array<Point>) => {
+      this._firstMove = true;
+      this._fingers = points.length;
+
+      // A second finger takes the gesture back from a parent scroller
+      this._isScrollChained = false;
+      this._scrollParent = null;
+      this._lastDragPoint = this._fingers === 1 ? points[0] : null;
+
+      if (this._fingers === 1) {
+        // Ancestors can be moved without scroll or resize (e.g. by a carousel),
+        // so the container is measured once per gesture
+        this._containerRect = null;
+      }
+
+      this._detectDoubleTap(event, points);
+      this._startTap(points);
+    })
+  );
+
+  _handlerOnMove = this._handlerIfEnable(
+    this._handlerWithEvent((event: Event, points: Array<Point>) => {
+      if (this._isDoubleTap) {
+        return;
+      }
+
+      if (this._isScrollChained) {
+        return this._chainScroll(points);
+      }
+
+      // A small jitter of a tap doesn't start a drag
+      if (this._isTapMove(points)) {
+        return;
+      }
+
+      this._cancelTap();
+      this._collectInertia(points);
+
+      if (this._firstMove) {
+        // The events aren't cancelled until the end of the gesture
+        if (this._shouldChainScroll(points)) {
+          return this._startScrollChaining(points);
+        }
+
+        this._updateInteraction(points);
+
+        if (this._interaction) {
+          cancelEvent(event);
+        }
+
+        this._startTouches = points;
+      } else {
+        if (isZoomInteraction(this._interaction)) {
+          if (
+            this._startTouches &&
+            this._startTouches.length === 2 &&
+            points.length === 2
+          ) {
+            this._handleZoom(
+              points,
+              calculateScale(this._startTouches, points),
+              calculateRotation(this._startTouches, points)
+            );
+          }
+        } else if (isDragInteraction(this._interaction)) {
+          // The content reached an edge during the drag
+          if (this._shouldChainScroll(points)) {
+            this._setInteraction(null, points);
+
+            return this._startScrollChaining(points);
+          }
+
+          this._handleDrag(points);
+        }
+        if (this._interaction) {
+          cancelEvent(event);
+          this._update();
+        }
+      }
+
+      this._firstMove = false;
+      this._lastDragPoint = points.length === 1 ? points[0] : null;
+    })
+  );
+
+  _getPointerPoints(): Array<Point> {
+    return this._pointers.map(getPointByPageCoordinates);
+  }
+
+  _findPointerIndex({ pointerId }: PointerEvent): number {
+    return this._pointers.findIndex(pointer => pointer.pointerId === pointerId);
+  }
+
+  // All next events of the gesture pointers will be dispatched to the container,
+  // even if they leave it. Taps aren't captured, a captured pointer
+  // would retarget their click to the container
+  _capturePointers() {
+    const div = this._getContainer();
+
+    if (div.setPointerCapture) {
+      this._pointers.forEach(({ pointerId }) =>
+        div.setPointerCapture(pointerId)
+      );
+    }
+  }
+
+  _handlerPointerDown = (pointerEvent: PointerEvent) => {
+    const isMouse = pointerEvent.pointerType === "mouse";
+
+    if (!this._options.enabled || (isMouse && pointerEvent.button !== 0)) {
+      return;
+    }
+
+    if (isMouse) {
+      // Prevents text selection and native image dragging
+      pointerEvent.preventDefault();
+    }
+
+    const index = this._findPointerIndex(pointerEvent);
+
+    if (index === -1) {
+      this._pointers.push(pointerEvent);
+    } else {
+      this._pointers[index] = pointerEvent;
+    }
+
+    if (this._pointers.length === 1) {
+      this._ignoreNextClick = false;
+    }
+
+    this._handlerOnStart(pointerEvent, this._getPointerPoints());
+  };
+
+  _handlerPointerMove = (pointerEvent: PointerEvent) => {
+    const index = this._findPointerIndex(pointerEvent);
+
+    // Mouse hover or a pointer that started outside the container
+    if (index === -1) {
+      return;
+    }
+
+    // The mouse was released outside the container before it was captured
+    if (pointerEvent.pointerType === "mouse" && pointerEvent.buttons === 0) {
+      return this._handlerPointerCancel(pointerEvent);
+    }
+
+    this._pointers[index] = pointerEvent;
+    this._handlerOnMove(pointerEvent, this._getPointerPoints());
+  };
+
+  _handlerPointerUp = (pointerEvent: PointerEvent) => {
+    const index = this._findPointerIndex(pointerEvent);
+
+    if (index === -1) {
+      return;
+    }
+
+    this._pointers.splice(index, 1);
+    this._handlerOnEnd(pointerEvent, this._getPointerPoints());
+  };
+
+  _handlerPointerCancel = (pointerEvent: PointerEvent) => {
+    // A pointer taken over by the browser (e.g. for scrolling) isn't a tap
+    if (this._findPointerIndex(pointerEvent) !== -1) {
+      this._cancelTap();
+    }
+
+    this._handlerPointerUp(pointerEvent);
+  };
+
+  _handlerTouchStart = (touchEvent: TouchEvent) =>
+    this._handlerOnStart(
+      touchEvent,
+      getPageCoordinatesByTouches(touchEvent.touches)
+    );
+
+  _handlerTouchMove = (touchEvent: TouchEvent) =>
+    this._handlerOnMove(
+      touchEvent,
+      getPageCoordinatesByTouches(touchEvent.touches)
+    );
+
+  _handlerTouchEnd = (touchEvent: TouchEvent) =>
+    this._handlerOnEnd(
+      touchEvent,
+      getPageCoordinatesByTouches(touchEvent.touches)
+    );
+
+  _handlerMouseDown = (mouseEvent: MouseEvent) => {
+    mouseEvent.preventDefault();
+
+    this._listenMouseMove = true;
+    this._ignoreNextClick = false;
+    this._handlerOnStart(mouseEvent, [getPointByPageCoordinates(mouseEvent)]);
+  };
+
+  _handlerMouseMove = (mouseEvent: MouseEvent) => {
+    if (this._listenMouseMove) {
+      this._handlerOnMove(mouseEvent, [getPointByPageCoordinates(mouseEvent)]);
+    }
+  };
+
+  _handlerMouseUp = (mouseEvent: MouseEvent) => {
+    if (this._listenMouseMove) {
+      this._listenMouseMove = false;
+      this._handlerOnEnd(mouseEvent, []);
+    }
+  };
+
+  _getKeyAction(key: string): keyof KeyBindings | undefined {
+    const keyBindings = { ...defaultKeyBindings, ...this._options.keyBindings };
+    const actions = Object.keys(keyBindings) as Array<keyof KeyBindings>;
+
+    return actions.find(action => keyBindings[action].indexOf(key) !== -1);
+  }
+
+  _handlerKeyDown = this._handlerIfEnable((keyboardEvent: KeyboardEvent) => {
+    const { keyboard, keyboardPanStep, keyboardZoomStep } = this._options;
+    const { key, ctrlKey, metaKey, altKey, target } = keyboardEvent;
+
+    // Keep browser shortcuts (e.g. page zoom) working
+    if (!keyboard || ctrlKey || metaKey || altKey || isEditable(target)) {
+      return;
+    }
+
+    const action = this._getKeyAction(key);
+
+    if (!action) {
+      return;
+    }
+
+    cancelEvent(keyboardEvent);
+    this._stopAnimation();
+
+    switch (action) {
+      case "zoomIn":
+        return this._handleKeyboardZoom(this._toZoomFactor(keyboardZoomStep));
+      case "zoomOut":
+        return this._handleKeyboardZoom(-this._toZoomFactor(keyboardZoomStep));
+      case "reset":
+        this.reset();
+        return this._announceZoom();
+      case "panLeft":
+        return this._handleKeyboardPan({ x: -keyboardPanStep, y: 0 });
+      case "panRight":
+        return this._handleKeyboardPan({ x: keyboardPanStep, y: 0 });
+      case "panUp":
+        return this._handleKeyboardPan({ x: 0, y: -keyboardPanStep });
+      case "panDown":
+        return this._handleKeyboardPan({ x: 0, y: keyboardPanStep });
+    }
+  });
+
+  _handleKeyboardZoom(step: number) {
+    const { width, height } = this._getContainerRect();
+    const zoomFactor = this._options.zoomStops.length
+      ? this._getNextZoomStop(step)
+      : this._zoomFactor + step;
+
+    if (zoomFactor === null) {
+      return;
+    }
+
+    this._scaleTo(zoomFactor, { x: width / 2, y: height / 2 });
+    this._offset = this._sanitizeOffset(this._offset);
+    this._update();
+    this._announceZoom();
+  }
+
+  _handleKeyboardPan(offset: Point) {
+    this._addOffset(offset);
+    this._offset = this._sanitizeOffset(this._offset);
+    this._update();
+  }
+
+  _announceZoom() {
+    if (this._liveRegion) {
+      this._liveRegion.textContent = this._options.getZoomAnnouncement(
+        this._zoomFactor
+      );
+    }
+  }
+
+  _setupAccessibility() {
+    const { keyboard, keyBindings } = this._options;
+
+    if (!keyboard) {
+      return;
+    }
+
+    const div = this._getContainer();
+    const { zoomIn, zoomOut, reset, panLeft, panRight, panUp, panDown } = {
+      ...defaultKeyBindings,
+      ...keyBindings
+    };
+    const attributes: Array<[string, string]> = [
+      ["tabindex", "0"],
+      ["role", "application"],
+      [
+        "aria-keyshortcuts",
+        [zoomIn, zoomOut, reset, panLeft, panRight, panUp, panDown]
+          .map(keys => keys.map(key => ariaKeyNames[key] || key).join(" "))
+          .join(" ")
+      ]
+    ];
+
+    // Attributes passed by the owner have priority
+    attributes.forEach(([name, value]) => {
+      if (!div.hasAttribute(name)) {
+        div.setAttribute(name, value);
+        this._accessibilityAttributes.push(name);
+      }
+    });
+
+    const liveRegion = this._getDocument().createElement("div");
+
+    liveRegion.setAttribute("aria-live", "polite");
+    liveRegion.setAttribute("aria-atomic", "true");
+    liveRegion.style.cssText = visuallyHiddenStyle;
+    div.appendChild(liveRegion);
+
+    this._liveRegion = liveRegion;
+  }
+
+  _removeAccessibility() {
+    const div = this._getContainer();
+    const liveRegion = this._liveRegion;
+
+    this._accessibilityAttributes.forEach(name => div.removeAttribute(name));
+    this._accessibilityAttributes = [];
+
+    if (liveRegion && liveRegion.parentNode) {
+      liveRegion.parentNode.removeChild(liveRegion);
+    }
+
+    this._liveRegion = null;
+  }
+
+  _handleWheelPan(wheelEvent: WheelEvent) {
+    const { deltaX, deltaY, deltaMode } = wheelEvent;
+
+    if (!this._canDrag()) {
+      return;
+    }
+
+    // Lines or pages instead of pixels
+    const lineHeight =
+      deltaMode === 1
+        ? 15
+        : deltaMode === 2
+        ? this._getContainerRect().height
+        : 1;
+    let x = deltaX * lineHeight;
+    let y = deltaY * lineHeight;
+
+    if (this._options.lockDragAxis) {
+      if (abs(x) > abs(y)) {
+        y = 0;
+      } else {
+        x = 0;
+      }
+    }
+
+    const prevOffset = { ...this._offset };
+
+    this._addOffset({ x, y });
+    this._offset = this._sanitizeOffset(this._offset);
+
+    // The edge of the element is reached, so the page can be scrolled
+    if (comparePoints(prevOffset, this._offset)) {
+      return;
+    }
+
+    cancelEvent(wheelEvent);
+    this._stopAnimation();
+    this._update();
+  }
+
+  _handlerWheel = (wheelEvent: WheelEvent) => {
+    if (this._options.shouldInterceptWheel(wheelEvent)) {
+      if (this._options.wheelPan) {
+        this._handleWheelPan(wheelEvent);
+      }
+
+      return;
+    }
+
+    cancelEvent(wheelEvent);
+
+    const { deltaY, deltaMode } = wheelEvent;
+
+    let scaleDelta = 1;
+
+    if (isZoomGesture(wheelEvent) || deltaMode === 1) {
+      scaleDelta = 15;
+    }
+
+    const center = this._getOffsetByFirstPoint([
+      getPointByPageCoordinates(wheelEvent)
+    ]);
+    const dScale = deltaY * scaleDelta;
+
+    this._stopAnimation();
+    this._nativeEvent = wheelEvent;
+    this._gesturePoints = [getPointByPageCoordinates(wheelEvent)];
+    this._scaleTo(
+      this._zoomFactor - dScale / this._options.wheelScaleFactor,
+      center
+    );
+    this._nativeEvent = null;
+    this._lastZoomCenter = center;
+    this._isZoomSnapPending = true;
+    this._update();
+
+    clearTimeout(
+      // @ts-ignore
+      this._wheelTimeOut
+    );
+    this._wheelTimeOut = setTimeout(() => this._sanitize(), 100);
+  };
+
+  _createHandlers(): Array<EventHandler> {
+    return hasPointerEvents()
+      ? [
+          ["pointerdown", this._handlerPointerDown],
+          ["pointermove", this._handlerPointerMove],
+          ["pointerup", this._handlerPointerUp],
+          ["pointercancel", this._handlerPointerCancel],
+          ["click", this._handleClick],
+          ["wheel", this._handlerWheel],
+          ["keydown", this._handlerKeyDown]
+        ]
+      : this._options.isTouch()
+      ? [
+          ["touchstart", this._handlerTouchStart],
+          ["touchend", this._handlerTouchEnd],
+          ["touchmove", this._handlerTouchMove],
+          ["keydown", this._handlerKeyDown]
+        ]
+      : [
+          ["mousemove", this._handlerMouseMove, this._getDocument()],
+          ["mouseup", this._handlerMouseUp, this._getDocument()],
+          ["mousedown", this._handlerMouseDown],
+          ["click", this._handleClick],
+          ["wheel", this._handlerWheel],
+          ["keydown", this._handlerKeyDown]
+        ];
+  }
+
+  attach(container: HTMLElement, content: HTMLElement | null = null) {
+    // A new content element of the same container (e.g. from the hook) is measured again
+    const isReattached = this._container === container;
+
+    if (this._container) {
+      this.detach();
+    }
+
+    this._container = container;
+    this._content = content;
+    this._invalidateLayout();
+    this._makeTransformValue = hasTranslate3DSupport()
+      ? make3dTransformValue
+      : make2dTransformValue;
+    this._handlers = this._createHandlers();
+    this._bindEvents();
+    this._setupAccessibility();
+    this._applyControlledTransform();
+
+    if (isReattached) {
+      this._onResize();
+    } else {
+      this._update();
+    }
+  }
+
+  detach() {
+    if (!this._container) {
+      return;
+    }
+
+    this._stopAnimation();
+    this._cancelTap();
+    this._unSubscribe();
+    this._removeAccessibility();
+
+    const content = this._getContent();
+
+    if (this._options.applyTransform && content) {
+      content.style.willChange = "";
+    }
+
+    if (this._touchAction !== null) {
+      this._getContainer().style.touchAction = "";
+      this._touchAction = null;
+    }
+
+    this._container = null;
+    this._content = null;
+  }
+
+  setOptions(options: Partial<ControllerOptions>) {
+    const prevOptions = this._options;
+    const nextOptions: ControllerOptions = { ...defaultOptions };
+    const setOption = <K extends keyof ControllerOptions>(key: K) => {
+      const value = options[key];
+
+      // `undefined` value is replaced by the default one
+      if (value !== undefined) {
+        nextOptions[key] = value as ControllerOptions[K];
+      }
+    };
+
+    (Object.keys(options) as Array<keyof ControllerOptions>).forEach(setOption);
+
+    this._options = nextOptions;
+
+    const isControlledTransformChanged = ["scale", "x", "y", "rotation"].some(
+      key => prevOptions[key] !== nextOptions[key]
+    );
+
+    if (this._container && isControlledTransformChanged) {
+      this._applyControlledTransform();
+    }
+
+    const isFitChanged = ["fit", "initialAlign"].some(
+      key => prevOptions[key] !== nextOptions[key]
+    );
+
+    if (this._container && isFitChanged) {
+      this._isOffsetsSet = false;
+      this._onResize();
+    }
+
+    if (this._container && prevOptions.keyboard !== nextOptions.keyboard) {
+      this._removeAccessibility();
+      this._setupAccessibility();
+    }
+  }
+
+  subscribe(listener: UpdateListener): () => void {
+    this._listeners.push(listener);
+
+    return () => {
+      this._listeners = this._listeners.filter(fn => fn !== listener);
+    };
+  }
+
+  getZoomFactor(): number {
+    return this._zoomFactor;
+  }
+
+  isAnimating(): boolean {
+    return !!this._inAnimation;
+  }
+
+  isInteracting(): boolean {
+    return !!this._hasInteraction || this._interaction !== null;
+  }
+
+  screenToContent(point: Point): Point {
+    const scale = this._getInitialZoomFactor() * this._zoomFactor;
+    const { x, y } = this._getOffsetByFirstPoint([point]);
+
+    return rotatePoint(
+      { x: (x + this._offset.x) / scale, y: (y + this._offset.y) / scale },
+      -this._rotation
+    );
+  }
+
+  contentToScreen(point: Point): Point {
+    const scale = this._getInitialZoomFactor() * this._zoomFactor;
+    const position = this._getContainerPagePosition();
+    const { x, y } = rotatePoint(point, this._rotation);
+
+    return {
+      x: x * scale - this._offset.x + position.x,
+      y: y * scale - this._offset.y + position.y
+    };
+  }
+
+  reset() {
+    this._stopAnimation();
+    this._zoomFactor = 1;
+    this._rotation = 0;
+    this._resetOffset();
+    this._update();
+  }
+
+  zoomIn(): Promise<AnimationStatus> {
+    return this._zoomToNextStop(1);
+  }
+
+  zoomOut(): Promise<AnimationStatus> {
+    return this._zoomToNextStop(-1);
+  }
+}
+
+export default PinchZoomController;
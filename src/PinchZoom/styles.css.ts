@@ -1,12 +1,41 @@
 export const styleRoot = "kvfysmfp";
 export const styleChild = "ufhsfnkm";
 
-const styleElement = document.createElement("style");
+const styleId = `${styleRoot}-style`;
 
-styleElement.appendChild(
-  document.createTextNode(
-    `.${styleRoot}{overflow:hidden;touch-action:none}.${styleChild}{transform-origin: 0 0}`
-  )
-);
+export const styles = `.${styleRoot}{overflow:hidden;touch-action:none}.${styleChild}{transform-origin: 0 0}`;
 
-document.getElementsByTagName("head")[0].appendChild(styleElement);
+// Styles of the document don't apply inside a shadow root
+const getStyleRoot = (element: HTMLElement): Document | ShadowRoot => {
+  const root = element.getRootNode ? element.getRootNode() : null;
+
+  return root && root.nodeType === Node.DOCUMENT_FRAGMENT_NODE
+    ? (root as ShadowRoot)
+    : element.ownerDocument;
+};
+
+// Called on mount, so nothing touches the DOM on import (e.g. on the server)
+export const injectStyles = (element: HTMLElement, nonce?: string) => {
+  const root = getStyleRoot(element);
+
+  if (root.querySelector(`#${styleId}`)) {
+    return;
+  }
+
+  const doc = element.ownerDocument;
+  const styleElement = doc.createElement("style");
+
+  styleElement.id = styleId;
+
+  if (nonce) {
+    styleElement.setAttribute("nonce", nonce);
+  }
+
+  styleElement.appendChild(doc.createTextNode(styles));
+
+  if (root === doc) {
+    doc.getElementsByTagName("head")[0].appendChild(styleElement);
+  } else {
+    root.appendChild(styleElement);
+  }
+};
@@ -1,54 +1,225 @@
+import { Point } from "../types";
+
 export interface UpdateAction {
   x: number;
   y: number;
   scale: number;
+  rotation?: number;
 }
 
+export type AnimationStatus = "finished" | "cancelled";
+
+export type Spring = {
+  stiffness: number;
+  damping: number;
+};
+
+export type Easing = ((progress: number) => number) | Spring;
+
 export interface AnimateOptions {
-  timeFn?: (x: number) => number;
-  callback?: () => void;
+  easing?: Easing;
+  callback?: () => void | Promise<AnimationStatus>;
   duration?: number;
+  velocity?: number;
 }
 
 export type ScaleToOptions = {
   x: number;
   y: number;
   scale: number;
+  rotation?: number;
   animated?: boolean;
   duration?: number;
+  easing?: Easing;
 };
 
-export type DefaultProps = {
+export type Fit = "contain" | "cover" | "width" | "height" | "none";
+
+// Axes where a drag past the edge is left to a parent scroller
+export type ScrollChaining = "none" | "x" | "y" | "both";
+
+export type Align =
+  | "center"
+  | "top"
+  | "bottom"
+  | "left"
+  | "right"
+  | "top-left"
+  | "top-right"
+  | "bottom-left"
+  | "bottom-right";
+
+export type ZoomStop = number | "fit-page" | "fit-width" | "fit-height";
+
+export type GestureEventType =
+  | "zoomStart"
+  | "zoomUpdate"
+  | "zoomEnd"
+  | "dragStart"
+  | "dragUpdate"
+  | "dragEnd"
+  | "doubleTap"
+  | "tap"
+  | "longPress";
+
+export type GestureEvent = {
+  type: GestureEventType;
+  // `null` when the callback is called by an animation
+  nativeEvent: Event | null;
+  scale: number;
+  x: number;
+  y: number;
+  rotation: number;
+  // Changes since the previous event
+  deltaScale: number;
+  deltaX: number;
+  deltaY: number;
+  // Center of the pointers in container and content coordinates
+  center: Point;
+  contentCenter: Point;
+  pointers: number;
+  // Velocity of the pointer (px/ms)
+  velocity: Point;
+};
+
+export type GestureCallback = (event: GestureEvent) => void;
+
+export type DoubleTapState = UpdateAction & { zoomFactor: number };
+
+// Target in content coordinates, `scale` is the same as `scaleTo` receives
+export type DoubleTapTarget = { x: number; y: number; scale: number };
+
+export type DoubleTapHandler = (
+  point: Point,
+  state: DoubleTapState
+) => DoubleTapTarget | null | void;
+
+export type DoubleTapBehavior =
+  | "zoomIn"
+  | "toggle"
+  | "reset"
+  | DoubleTapHandler;
+
+export type KeyBindings = {
+  zoomIn: Array<string>;
+  zoomOut: Array<string>;
+  reset: Array<string>;
+  panLeft: Array<string>;
+  panRight: Array<string>;
+  panUp: Array<string>;
+  panDown: Array<string>;
+};
+
+export type DefaultOptions = {
   shouldInterceptWheel: (e: WheelEvent) => boolean;
-  containerProps: React.HTMLAttributes<HTMLDivElement>;
   animationDuration: number;
+  applyTransform: boolean;
   wheelScaleFactor: number;
+  wheelPan: boolean;
+  doubleTapBehavior: DoubleTapBehavior;
+  doubleTapDelay: number;
   draggableUnZoomed: boolean;
+  scrollChaining: ScrollChaining;
+  absoluteScale: boolean;
+  limitToNativeSize: boolean;
+  easing: Easing;
+  elastic: boolean;
+  elasticResistance: number;
+  maxOverscroll: number;
+  maxOverzoom: number;
+  enableRotation: boolean;
   inertia: boolean;
   inertiaFriction: number;
   enabled: boolean;
+  fit: Fit;
+  initialAlign: Align;
   horizontalPadding: number;
   lockDragAxis: boolean;
+  tapThreshold: number;
+  longPressDelay: number;
+  keyboard: boolean;
+  keyboardPanStep: number;
+  keyboardZoomStep: number;
+  keyBindings: Partial<KeyBindings>;
+  getZoomAnnouncement: (zoomFactor: number) => string;
 
   maxZoom: number;
   minZoom: number;
-  onDoubleTap: () => void;
-  onDragEnd: () => void;
-  onDragStart: () => void;
-  onDragUpdate: () => void;
-  onZoomEnd: () => void;
-  onZoomStart: () => void;
-  onZoomUpdate: () => void;
+  onChange: (updateAction: UpdateAction) => void;
+  onDoubleTap: GestureCallback;
+  onDragEnd: GestureCallback;
+  onDragStart: GestureCallback;
+  onDragUpdate: GestureCallback;
+  onTap: GestureCallback;
+  onLongPress: GestureCallback;
+  onZoomEnd: GestureCallback;
+  onZoomStart: GestureCallback;
+  onZoomUpdate: GestureCallback;
   setOffsetsOnce: boolean;
   tapZoomFactor: number;
   verticalPadding: number;
   zoomOutFactor: number;
+  zoomStops: Array<ZoomStop>;
   isTouch: () => boolean;
-  _html: HTMLElement;
-  _body: HTMLElement;
+  _html: HTMLElement | null;
+  _body: HTMLElement | null;
+};
+
+// Options of the base styles, they aren't passed to the controller
+export type StyleOptions = {
+  // `false` when the styles are bundled from `react-quick-pinch-zoom/styles.css`
+  injectStyles: boolean;
+  // Content-Security-Policy nonce of the injected `<style>`
+  nonce: string;
+};
+
+export type DefaultProps = DefaultOptions &
+  StyleOptions & {
+    containerProps: React.HTMLAttributes<HTMLDivElement>;
+  };
+
+export type ControlledProps = {
+  scale?: number;
+  x?: number;
+  y?: number;
+  rotation?: number;
 };
 
+// `onUpdate` is optional when the transform is applied by the controller
 export type RequiredProps = {
-  onUpdate: (updateAction: UpdateAction) => void;
   children: JSX.Element;
+} & (
+  | { applyTransform?: false; onUpdate: (updateAction: UpdateAction) => void }
+  | { applyTransform: true; onUpdate?: (updateAction: UpdateAction) => void }
+);
+
+export type UpdateListener = (updateAction: UpdateAction) => void;
+
+export type ControllerOptions = DefaultOptions &
+  ControlledProps & {
+    onUpdate: UpdateListener;
+  };
+
+export type UsePinchZoomOptions = Partial<ControllerOptions & StyleOptions>;
+
+export type PinchZoomHandle = {
+  alignCenter(options: ScaleToOptions): Promise<AnimationStatus>;
+  scaleTo(options: ScaleToOptions): Promise<AnimationStatus>;
+  reset(): void;
+  zoomIn(): Promise<AnimationStatus>;
+  zoomOut(): Promise<AnimationStatus>;
+  getTransform(): UpdateAction;
+  getZoomFactor(): number;
+  isAnimating(): boolean;
+  isInteracting(): boolean;
+  screenToContent(point: Point): Point;
+  contentToScreen(point: Point): Point;
+};
+
+export type UsePinchZoomResult<T extends HTMLElement> = PinchZoomHandle & {
+  containerRef: React.RefObject<HTMLDivElement>;
+  contentRef: React.RefObject<T>;
+  containerClassName: string;
+  contentClassName: string;
+  transform: UpdateAction;
 };
@@ -0,0 +1,112 @@
+import * as React from "react";
+
+import { styleRoot, styleChild, injectStyles } from "./styles.css";
+import PinchZoomController from "./controller";
+import { Point } from "../types";
+import {
+  PinchZoomHandle,
+  ScaleToOptions,
+  UpdateAction,
+  UsePinchZoomOptions,
+  UsePinchZoomResult
+} from "./types";
+
+const { useEffect, useLayoutEffect, useMemo, useRef, useState } = React;
+
+// `useLayoutEffect` warns on the server, effects aren't run there anyway
+const useIsomorphicLayoutEffect =
+  typeof window !== "undefined" ? useLayoutEffect : useEffect;
+
+const initialTransform: UpdateAction = { scale: 1, x: 0, y: 0, rotation: 0 };
+
+// `transform` state re-renders the owner on each update,
+// the component doesn't read it, so it opts out with `trackTransform`
+export const usePinchZoomInternal = <T extends HTMLElement = HTMLElement>(
+  {
+    injectStyles: shouldInjectStyles = true,
+    nonce,
+    ...options
+  }: UsePinchZoomOptions,
+  trackTransform: boolean
+): UsePinchZoomResult<T> => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<T>(null);
+  const controllerRef = useRef<PinchZoomController | null>(null);
+  const attachedContentRef = useRef<T | null>(null);
+  const [transform, setTransform] = useState(initialTransform);
+
+  if (!controllerRef.current) {
+    controllerRef.current = new PinchZoomController(options);
+  }
+
+  const controller = controllerRef.current;
+
+  // The same as `componentDidUpdate`, controller follows the last options
+  useIsomorphicLayoutEffect(() => controller.setOptions(options));
+
+  // The owner isn't re-rendered on updates when the controller applies the transform,
+  // the unsubscribe also drops an update planned before unmount
+  const shouldSubscribe = trackTransform && !options.applyTransform;
+
+  useIsomorphicLayoutEffect(
+    () => (shouldSubscribe ? controller.subscribe(setTransform) : undefined),
+    [controller, shouldSubscribe]
+  );
+
+  useIsomorphicLayoutEffect(() => {
+    const container = containerRef.current as HTMLElement;
+
+    // The styles are injected by the first mounted instance
+    if (shouldInjectStyles) {
+      injectStyles(container, nonce);
+    }
+
+    attachedContentRef.current = contentRef.current;
+    controller.attach(container, contentRef.current);
+
+    return () => controller.detach();
+  }, [controller]);
+
+  // A new content element (e.g. rendered with another `key`) is attached again
+  useIsomorphicLayoutEffect(() => {
+    if (contentRef.current !== attachedContentRef.current) {
+      attachedContentRef.current = contentRef.current;
+      controller.attach(
+        containerRef.current as HTMLElement,
+        contentRef.current
+      );
+    }
+  });
+
+  const handle: PinchZoomHandle = useMemo(
+    () => ({
+      scaleTo: (options: ScaleToOptions) => controller.scaleTo(options),
+      alignCenter: (options: ScaleToOptions) => controller.alignCenter(options),
+      reset: () => controller.reset(),
+      zoomIn: () => controller.zoomIn(),
+      zoomOut: () => controller.zoomOut(),
+      getTransform: () => controller.getTransform(),
+      getZoomFactor: () => controller.getZoomFactor(),
+      isAnimating: () => controller.isAnimating(),
+      isInteracting: () => controller.isInteracting(),
+      screenToContent: (point: Point) => controller.screenToContent(point),
+      contentToScreen: (point: Point) => controller.contentToScreen(point)
+    }),
+    [controller]
+  );
+
+  return {
+    containerRef,
+    contentRef,
+    containerClassName: styleRoot,
+    contentClassName: styleChild,
+    transform,
+    ...handle
+  };
+};
+
+const usePinchZoom = <T extends HTMLElement = HTMLElement>(
+  options: UsePinchZoomOptions = {}
+): UsePinchZoomResult<T> => usePinchZoomInternal<T>(options, true);
+
+export default usePinchZoom;
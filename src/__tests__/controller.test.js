@@ -0,0 +1,1639 @@
+import { PinchZoomController, make2dTransformValue } from "../index";
+import {
+  createContainer,
+  createController,
+  createPointerEvent,
+  mockContainerRect,
+  mockPointerEvents,
+  nextFrame,
+  waitForAnimation
+} from "./helpers";
+
+beforeEach(() => {
+  mockContainerRect();
+});
+
+describe("PinchZoomController", () => {
+  mockPointerEvents();
+
+  it("should emit updates to subscribers", async () => {
+    const { controller } = createController();
+    const listener = jest.fn();
+
+    controller.subscribe(listener);
+    controller.scaleTo({ x: 0, y: 0, scale: 2, animated: false });
+    await nextFrame();
+
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.objectContaining({ scale: 2 })
+    );
+  });
+
+  it("should stop emitting updates after unsubscribe", async () => {
+    const { controller } = createController();
+    const listener = jest.fn();
+    const unsubscribe = controller.subscribe(listener);
+
+    unsubscribe();
+    controller.scaleTo({ x: 0, y: 0, scale: 2, animated: false });
+    await nextFrame();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should listen gestures until detached", () => {
+    const onDragStart = jest.fn();
+    const { controller, container } = createController({
+      onDragStart,
+      tapThreshold: 0
+    });
+    const touch = { pointerId: 1, pointerType: "touch" };
+
+    container.dispatchEvent(createPointerEvent("pointerdown", touch));
+    container.dispatchEvent(createPointerEvent("pointermove", touch));
+    container.dispatchEvent(createPointerEvent("pointerup", touch));
+
+    expect(onDragStart).toHaveBeenCalledTimes(1);
+
+    controller.detach();
+    container.dispatchEvent(createPointerEvent("pointerdown", touch));
+    container.dispatchEvent(createPointerEvent("pointermove", touch));
+
+    expect(onDragStart).toHaveBeenCalledTimes(1);
+  });
+
+  it("should capture pointers only for gestures", () => {
+    const setPointerCapture = jest.fn();
+    const { container } = createController({ tapThreshold: 5 });
+    const touch = { pointerId: 1, pointerType: "touch", pageX: 50 };
+
+    container.setPointerCapture = setPointerCapture;
+    container.dispatchEvent(createPointerEvent("pointerdown", touch));
+    container.dispatchEvent(createPointerEvent("pointerup", touch));
+
+    expect(setPointerCapture).not.toHaveBeenCalled();
+
+    // Not a double tap
+    jest.spyOn(performance, "now").mockReturnValue(performance.now() + 1000);
+    container.dispatchEvent(createPointerEvent("pointerdown", touch));
+    container.dispatchEvent(
+      createPointerEvent("pointermove", { ...touch, pageX: 70 })
+    );
+
+    expect(setPointerCapture).toHaveBeenCalledWith(1);
+  });
+
+  it("should drop a mouse released outside the container", () => {
+    const onTap = jest.fn();
+    const onDragStart = jest.fn();
+    const { controller, container } = createController({
+      onTap,
+      onDragStart,
+      tapThreshold: 0
+    });
+    const mouse = { pointerId: 1, pointerType: "mouse", buttons: 1 };
+
+    container.dispatchEvent(createPointerEvent("pointerdown", mouse));
+    // The release wasn't seen, the next move is a hover
+    container.dispatchEvent(
+      createPointerEvent("pointermove", { ...mouse, buttons: 0, pageX: 20 })
+    );
+    container.dispatchEvent(
+      createPointerEvent("pointermove", { ...mouse, buttons: 0, pageX: 40 })
+    );
+
+    expect(onTap).not.toHaveBeenCalled();
+    expect(onDragStart).not.toHaveBeenCalled();
+    expect(controller.isInteracting()).toBe(false);
+  });
+
+  it("should ignore pointers when disabled", () => {
+    const setPointerCapture = jest.fn();
+    const onDragStart = jest.fn();
+    const { container } = createController({
+      enabled: false,
+      onDragStart,
+      tapThreshold: 0
+    });
+    const mouse = { pointerId: 1, pointerType: "mouse" };
+    const pointerDown = createPointerEvent("pointerdown", mouse);
+
+    container.setPointerCapture = setPointerCapture;
+    container.dispatchEvent(pointerDown);
+    container.dispatchEvent(
+      createPointerEvent("pointermove", { ...mouse, pageX: 20 })
+    );
+
+    expect(pointerDown.defaultPrevented).toBe(false);
+    expect(setPointerCapture).not.toHaveBeenCalled();
+    expect(onDragStart).not.toHaveBeenCalled();
+  });
+
+  it("should apply controlled values passed through options", async () => {
+    const onUpdate = jest.fn();
+    const { controller } = createController({ onUpdate });
+
+    controller.setOptions({ onUpdate, scale: 3, x: 10, y: 20 });
+    await nextFrame();
+
+    expect(onUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ scale: 3, x: 10, y: 20 })
+    );
+  });
+});
+
+describe("Iframe", () => {
+  // The iframe is removed with its tracked host
+  const createIframeContainer = createChild => {
+    const iframe = document.createElement("iframe");
+
+    createContainer().appendChild(iframe);
+
+    const iframeDocument = iframe.contentDocument;
+    const container = iframeDocument.createElement("div");
+
+    container.appendChild(createChild(iframeDocument));
+    iframeDocument.body.appendChild(container);
+
+    return container;
+  };
+
+  it("should track the mouse in the document of the container", () => {
+    const onDragStart = jest.fn();
+    const controller = new PinchZoomController({
+      onDragStart,
+      isTouch: () => false,
+      tapThreshold: 0
+    });
+    const container = createIframeContainer(iframeDocument =>
+      iframeDocument.createElement("div")
+    );
+
+    controller.attach(container);
+
+    container.dispatchEvent(
+      new MouseEvent("mousedown", { bubbles: true, cancelable: true })
+    );
+    document.dispatchEvent(new MouseEvent("mousemove", { bubbles: true }));
+
+    expect(onDragStart).not.toHaveBeenCalled();
+
+    container.ownerDocument.dispatchEvent(
+      new MouseEvent("mousemove", { bubbles: true })
+    );
+
+    expect(onDragStart).toHaveBeenCalledTimes(1);
+
+    controller.detach();
+  });
+
+  it("should not zoom images beyond native resolution", () => {
+    const controller = new PinchZoomController({ limitToNativeSize: true });
+    const container = createIframeContainer(iframeDocument => {
+      const image = iframeDocument.createElement("img");
+
+      Object.defineProperty(image, "naturalWidth", { value: 400 });
+      image.style.cssText = "width: 200px; height: 100px";
+
+      return image;
+    });
+    const iframeWindow = container.ownerDocument.defaultView;
+
+    // Elements of the iframe have own prototypes
+    jest
+      .spyOn(iframeWindow.Element.prototype, "getBoundingClientRect")
+      .mockReturnValue({ top: 0, left: 0, width: 100, height: 100 });
+    controller.attach(container);
+    iframeWindow.dispatchEvent(new iframeWindow.Event("resize"));
+    controller.scaleTo({ scale: 10, x: 50, y: 50, animated: false });
+
+    expect(controller.getTransform().scale).toBe(2);
+
+    controller.detach();
+  });
+});
+
+describe("Coordinate conversion", () => {
+  beforeEach(() => {
+    mockContainerRect({ top: 20, left: 10 });
+  });
+
+  it("should convert page coordinates to content coordinates", () => {
+    const { controller } = createController();
+
+    controller.scaleTo({ x: 0, y: 0, scale: 2, animated: false });
+
+    expect(controller.screenToContent({ x: 30, y: 60 })).toEqual({
+      x: 10,
+      y: 20
+    });
+    expect(controller.contentToScreen({ x: 10, y: 20 })).toEqual({
+      x: 30,
+      y: 60
+    });
+  });
+
+  it("should take page scroll into account", () => {
+    const { controller } = createController({
+      _html: { scrollTop: 100, scrollLeft: 50 }
+    });
+
+    expect(controller.screenToContent({ x: 60, y: 120 })).toEqual({
+      x: 0,
+      y: 0
+    });
+  });
+
+  it("should convert coordinates of rotated content", () => {
+    const { controller } = createController();
+    const point = { x: 40, y: 70 };
+
+    controller.scaleTo({
+      x: 50,
+      y: 50,
+      scale: 3,
+      rotation: 30,
+      animated: false
+    });
+
+    const { x, y } = controller.contentToScreen(
+      controller.screenToContent(point)
+    );
+
+    expect(x).toBeCloseTo(point.x);
+    expect(y).toBeCloseTo(point.y);
+  });
+});
+
+describe("Keyboard", () => {
+  const pressKey = (container, key, init) =>
+    container.dispatchEvent(
+      new KeyboardEvent("keydown", { key, bubbles: true, ...init })
+    );
+
+  it("should be disabled by default", () => {
+    const { controller, container } = createController();
+
+    pressKey(container, "+");
+
+    expect(controller.getZoomFactor()).toBe(1);
+    expect(container.hasAttribute("tabindex")).toBe(false);
+  });
+
+  it("should make container accessible", () => {
+    const controller = new PinchZoomController({ keyboard: true });
+    const container = createContainer();
+
+    container.setAttribute("role", "img");
+    controller.attach(container);
+
+    expect(container.getAttribute("tabindex")).toBe("0");
+    expect(container.getAttribute("role")).toBe("img");
+    expect(container.getAttribute("aria-keyshortcuts")).toBe(
+      "Plus = - _ 0 ArrowLeft ArrowRight ArrowUp ArrowDown"
+    );
+    expect(container.querySelector("[aria-live=polite]")).not.toBe(null);
+
+    controller.detach();
+
+    expect(container.hasAttribute("tabindex")).toBe(false);
+    expect(container.getAttribute("role")).toBe("img");
+    expect(container.querySelector("[aria-live=polite]")).toBe(null);
+  });
+
+  it("should zoom, pan and reset with keys", () => {
+    const { controller, container } = createController({ keyboard: true });
+
+    pressKey(container, "+");
+
+    expect(controller.getZoomFactor()).toBe(1.5);
+    expect(container.querySelector("[aria-live]").textContent).toBe("150%");
+
+    const { x } = controller.getTransform();
+
+    pressKey(container, "ArrowRight");
+
+    expect(controller.getTransform().x).toBeLessThan(x);
+
+    pressKey(container, "0");
+
+    expect(controller.getZoomFactor()).toBe(1);
+  });
+
+  it("should use custom key bindings and steps", () => {
+    const { controller, container } = createController({
+      keyboard: true,
+      keyboardZoomStep: 1,
+      keyBindings: { zoomIn: ["i"] }
+    });
+
+    pressKey(container, "+");
+    pressKey(container, "+", { ctrlKey: true });
+
+    expect(controller.getZoomFactor()).toBe(1);
+
+    pressKey(container, "i");
+
+    expect(controller.getZoomFactor()).toBe(2);
+  });
+
+  it("should ignore keys typed into form fields of the content", () => {
+    const input = document.createElement("input");
+    const { controller, container } = createController(
+      { keyboard: true },
+      "",
+      input
+    );
+    const event = new KeyboardEvent("keydown", {
+      key: "+",
+      bubbles: true,
+      cancelable: true
+    });
+
+    input.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(false);
+    expect(controller.getZoomFactor()).toBe(1);
+
+    pressKey(container, "+");
+
+    expect(controller.getZoomFactor()).toBe(1.5);
+  });
+});
+
+describe("Wheel panning", () => {
+  const scroll = (container, init) => {
+    const event = new WheelEvent("wheel", {
+      bubbles: true,
+      cancelable: true,
+      ...init
+    });
+
+    container.dispatchEvent(event);
+
+    return event;
+  };
+
+  const createZoomedController = options => {
+    const zoomed = createController({
+      wheelPan: true,
+      isTouch: () => false,
+      ...options
+    });
+
+    zoomed.controller.scaleTo({ scale: 2, x: 50, y: 50, animated: false });
+
+    return zoomed;
+  };
+
+  it("should be disabled by default", () => {
+    const { controller, container } = createZoomedController({
+      wheelPan: undefined
+    });
+    const transform = controller.getTransform();
+    const event = scroll(container, { deltaX: 10, deltaY: 10 });
+
+    expect(event.defaultPrevented).toBe(false);
+    expect(controller.getTransform()).toEqual(transform);
+  });
+
+  it("should pan zoomed content", () => {
+    const { controller, container } = createZoomedController();
+    const { x, y } = controller.getTransform();
+    const event = scroll(container, { deltaX: 10, deltaY: 20 });
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(controller.getTransform().x).toBe(x - 5);
+    expect(controller.getTransform().y).toBe(y - 10);
+    expect(controller.getZoomFactor()).toBe(2);
+  });
+
+  it("should let the page scroll at the edge", () => {
+    const { controller, container } = createZoomedController();
+
+    scroll(container, { deltaY: 1000 });
+
+    const transform = controller.getTransform();
+    const event = scroll(container, { deltaY: 10 });
+
+    expect(event.defaultPrevented).toBe(false);
+    expect(controller.getTransform()).toEqual(transform);
+  });
+
+  it("should respect lockDragAxis", () => {
+    const { controller, container } = createZoomedController({
+      lockDragAxis: true
+    });
+    const { x, y } = controller.getTransform();
+
+    scroll(container, { deltaX: 10, deltaY: 20 });
+
+    expect(controller.getTransform().x).toBe(x);
+    expect(controller.getTransform().y).toBe(y - 10);
+  });
+
+  it("should keep zooming with modifier keys", () => {
+    const { controller, container } = createZoomedController();
+
+    scroll(container, { deltaY: -100, ctrlKey: true });
+
+    expect(controller.getZoomFactor()).toBeGreaterThan(2);
+  });
+});
+
+describe("Elastic", () => {
+  const createElasticController = options =>
+    createController({
+      elastic: true,
+      inertia: false,
+      animationDuration: 0,
+      ...options
+    });
+
+  mockPointerEvents();
+
+  it("should overscroll with resistance and spring back", async () => {
+    const { controller, container } = createElasticController();
+    const touch = { pointerId: 1, pointerType: "touch", pageY: 50 };
+
+    container.dispatchEvent(
+      createPointerEvent("pointerdown", { ...touch, pageX: 50 })
+    );
+    container.dispatchEvent(
+      createPointerEvent("pointermove", { ...touch, pageX: 60 })
+    );
+    container.dispatchEvent(
+      createPointerEvent("pointermove", { ...touch, pageX: 260 })
+    );
+
+    const { x } = controller.getTransform();
+
+    expect(x).toBeGreaterThan(0);
+    expect(x).toBeLessThan(100);
+
+    container.dispatchEvent(
+      createPointerEvent("pointerup", { ...touch, pageX: 260 })
+    );
+    await waitForAnimation(controller);
+
+    expect(controller.getTransform().x).toBeCloseTo(0);
+  });
+
+  it("should limit overscroll by maxOverscroll", () => {
+    const { controller, container } = createElasticController({
+      maxOverscroll: 20
+    });
+    const touch = { pointerId: 1, pointerType: "touch", pageY: 50 };
+
+    container.dispatchEvent(
+      createPointerEvent("pointerdown", { ...touch, pageX: 0 })
+    );
+    container.dispatchEvent(
+      createPointerEvent("pointermove", { ...touch, pageX: 10 })
+    );
+    container.dispatchEvent(
+      createPointerEvent("pointermove", { ...touch, pageX: 5000 })
+    );
+
+    expect(controller.getTransform().x).toBeGreaterThan(15);
+    expect(controller.getTransform().x).toBeLessThan(20);
+  });
+
+  it("should over-zoom with resistance and spring back", async () => {
+    const { controller, container } = createElasticController({
+      maxZoom: 2,
+      maxOverzoom: 0.5
+    });
+    const first = { pointerId: 1, pointerType: "touch", pageX: 40, pageY: 50 };
+    const second = { pointerId: 2, pointerType: "touch", pageY: 50 };
+
+    container.dispatchEvent(createPointerEvent("pointerdown", first));
+    container.dispatchEvent(
+      createPointerEvent("pointerdown", { ...second, pageX: 60 })
+    );
+
+    for (let pageX = 61; pageX < 400; pageX += 10) {
+      container.dispatchEvent(
+        createPointerEvent("pointermove", { ...second, pageX })
+      );
+    }
+
+    expect(controller.getZoomFactor()).toBeGreaterThan(2);
+    expect(controller.getZoomFactor()).toBeLessThan(3);
+
+    container.dispatchEvent(
+      createPointerEvent("pointerup", { ...second, pageX: 400 })
+    );
+    container.dispatchEvent(createPointerEvent("pointerup", first));
+    await waitForAnimation(controller);
+
+    expect(controller.getZoomFactor()).toBeCloseTo(2);
+  });
+
+  it("should clamp without elastic mode", () => {
+    const { controller, container } = createElasticController({
+      elastic: false
+    });
+    const touch = { pointerId: 1, pointerType: "touch", pageY: 50 };
+
+    container.dispatchEvent(
+      createPointerEvent("pointerdown", { ...touch, pageX: 50 })
+    );
+    container.dispatchEvent(
+      createPointerEvent("pointermove", { ...touch, pageX: 60 })
+    );
+    container.dispatchEvent(
+      createPointerEvent("pointermove", { ...touch, pageX: 260 })
+    );
+
+    expect(controller.getTransform().x).toBeCloseTo(0);
+  });
+});
+
+describe("Inertia", () => {
+  let time;
+
+  const createZoomedController = options => {
+    const zoomed = createController({ inertiaFriction: 0.8, ...options });
+
+    zoomed.controller.scaleTo({ scale: 4, x: 50, y: 50, animated: false });
+
+    return zoomed;
+  };
+
+  const drag = (container, pageXs) => {
+    const touch = { pointerId: 1, pointerType: "touch", pageY: 50 };
+
+    container.dispatchEvent(
+      createPointerEvent("pointerdown", { ...touch, pageX: pageXs[0] })
+    );
+
+    pageXs.slice(1).forEach(pageX => {
+      time += 10;
+      container.dispatchEvent(
+        createPointerEvent("pointermove", { ...touch, pageX })
+      );
+    });
+  };
+
+  const release = (container, pageX) =>
+    container.dispatchEvent(
+      createPointerEvent("pointerup", {
+        pointerId: 1,
+        pointerType: "touch",
+        pageX,
+        pageY: 50
+      })
+    );
+
+  // Each frame takes `frameDuration` ms
+  const runFrames = async (controller, frameDuration) => {
+    performance.now.mockImplementation(() => (time += frameDuration));
+    await waitForAnimation(controller);
+  };
+
+  mockPointerEvents();
+
+  beforeEach(() => {
+    time = 0;
+    jest.spyOn(performance, "now").mockImplementation(() => time);
+  });
+
+  it("should continue drag after release", async () => {
+    const { controller, container } = createZoomedController();
+
+    drag(container, [50, 60, 70, 80]);
+
+    const { x } = controller.getTransform();
+
+    release(container, 80);
+    await runFrames(controller, 16);
+
+    expect(controller.getTransform().x).toBeGreaterThan(x);
+  });
+
+  it("should not depend on the frame rate", async () => {
+    const flick = async frameDuration => {
+      const { controller, container } = createZoomedController();
+
+      performance.now.mockImplementation(() => time);
+      drag(container, [50, 60, 70, 80]);
+      release(container, 80);
+      await runFrames(controller, frameDuration);
+
+      return controller.getTransform().x;
+    };
+
+    const x60 = await flick(1000 / 60);
+    const x120 = await flick(1000 / 120);
+
+    expect(Math.abs(x60 - x120)).toBeLessThan(1);
+  });
+
+  it("should stop when the pointer is released after a pause", () => {
+    const { controller, container } = createZoomedController();
+
+    drag(container, [50, 60, 70, 80]);
+    time += 200;
+    release(container, 80);
+
+    expect(controller.isAnimating()).toBe(false);
+  });
+
+  it("should continue zoom after release of a pinch", async () => {
+    const { controller, container } = createZoomedController({
+      maxZoom: 10
+    });
+    const first = { pointerId: 1, pointerType: "touch", pageX: 40, pageY: 50 };
+    const second = { pointerId: 2, pointerType: "touch", pageY: 50 };
+
+    controller.scaleTo({ scale: 2, x: 50, y: 50, animated: false });
+    container.dispatchEvent(createPointerEvent("pointerdown", first));
+    container.dispatchEvent(
+      createPointerEvent("pointerdown", { ...second, pageX: 60 })
+    );
+
+    for (let pageX = 61; pageX <= 80; pageX += 2) {
+      time += 10;
+      container.dispatchEvent(
+        createPointerEvent("pointermove", { ...second, pageX })
+      );
+    }
+
+    container.dispatchEvent(
+      createPointerEvent("pointerup", { ...second, pageX: 80 })
+    );
+    container.dispatchEvent(createPointerEvent("pointerup", first));
+
+    const zoomFactor = controller.getZoomFactor();
+
+    await runFrames(controller, 16);
+
+    expect(controller.getZoomFactor()).toBeGreaterThan(zoomFactor);
+    expect(controller.getZoomFactor()).toBeLessThanOrEqual(10);
+  });
+});
+
+describe("Easing", () => {
+  let time;
+
+  // Moves the fake clock and waits for the frame rendered at this time
+  const tick = async ms => {
+    time += ms;
+    await nextFrame();
+  };
+
+  beforeEach(() => {
+    time = 0;
+    jest.spyOn(performance, "now").mockImplementation(() => time);
+  });
+
+  it("should animate scaleTo with a custom easing", async () => {
+    const { controller } = createController();
+    const easing = jest.fn(progress => progress);
+    const animation = controller.scaleTo({ scale: 3, x: 50, y: 50, easing });
+
+    await tick(125);
+
+    expect(easing).toHaveBeenCalledWith(0.5);
+    expect(controller.getZoomFactor()).toBeCloseTo(2);
+
+    await tick(125);
+
+    expect(await animation).toBe("finished");
+    expect(controller.getZoomFactor()).toBe(3);
+  });
+
+  it("should use the default easing of the controller", async () => {
+    const easing = jest.fn(progress => progress * progress);
+    const { controller } = createController({ easing });
+
+    controller.scaleTo({ scale: 3, x: 50, y: 50 });
+    await tick(125);
+
+    expect(easing).toHaveBeenCalledWith(0.5);
+    expect(controller.getZoomFactor()).toBeCloseTo(1.5);
+  });
+
+  it("should animate with a spring until it comes to rest", async () => {
+    const { controller } = createController();
+    const animation = controller.scaleTo({
+      scale: 3,
+      x: 50,
+      y: 50,
+      duration: 10,
+      easing: { stiffness: 200, damping: 5 }
+    });
+    let maxZoomFactor = 1;
+
+    for (let frame = 0; frame < 20; frame += 1) {
+      await tick(16);
+      maxZoomFactor = Math.max(maxZoomFactor, controller.getZoomFactor());
+    }
+
+    // An underdamped spring overshoots the target and ignores duration
+    expect(maxZoomFactor).toBeGreaterThan(3);
+    expect(controller.isAnimating()).toBe(true);
+
+    await tick(10000);
+
+    expect(await animation).toBe("finished");
+    expect(controller.getZoomFactor()).toBe(3);
+  });
+});
+
+describe("Zoom stops", () => {
+  const createStopsController = (options, childStyle) =>
+    createController(
+      {
+        animationDuration: 0,
+        isTouch: () => false,
+        zoomStops: [1, 2, 4],
+        ...options
+      },
+      childStyle
+    );
+
+  mockPointerEvents();
+
+  it("should walk the stops with zoomIn and zoomOut", async () => {
+    const { controller } = createStopsController();
+
+    await controller.zoomIn();
+    expect(controller.getZoomFactor()).toBe(2);
+
+    await controller.zoomIn();
+    await controller.zoomIn();
+    expect(controller.getZoomFactor()).toBe(4);
+
+    await controller.zoomOut();
+    expect(controller.getZoomFactor()).toBe(2);
+  });
+
+  it("should zoom by tapZoomFactor without stops", async () => {
+    const { controller } = createStopsController({ zoomStops: undefined });
+
+    await controller.zoomIn();
+    expect(controller.getZoomFactor()).toBe(2);
+
+    await controller.zoomOut();
+    expect(controller.getZoomFactor()).toBe(1);
+  });
+
+  it("should resolve fit stops by the size of the content", async () => {
+    const { controller } = createStopsController(
+      { zoomStops: ["fit-height", "fit-width"] },
+      "width: 200px; height: 100px"
+    );
+
+    await controller.zoomIn();
+
+    expect(controller.getZoomFactor()).toBe(2);
+  });
+
+  it("should snap to the nearest stop after wheel zoom", async () => {
+    const { controller, container } = createStopsController();
+
+    container.dispatchEvent(
+      new WheelEvent("wheel", { deltaY: -900, ctrlKey: true })
+    );
+
+    expect(controller.getZoomFactor()).toBeCloseTo(1.6);
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+    await waitForAnimation(controller);
+
+    expect(controller.getZoomFactor()).toBe(2);
+  });
+
+  it("should step to the next stop on double tap", async () => {
+    const { controller, container } = createStopsController({
+      zoomStops: [1, 3]
+    });
+    const touch = { pointerId: 1, pointerType: "touch", pageX: 50, pageY: 50 };
+    const doubleTap = () =>
+      ["pointerdown", "pointerup", "pointerdown", "pointerup"].forEach(type =>
+        container.dispatchEvent(createPointerEvent(type, touch))
+      );
+
+    doubleTap();
+    await nextFrame();
+    await waitForAnimation(controller);
+
+    expect(controller.getZoomFactor()).toBe(3);
+
+    await new Promise(resolve => setTimeout(resolve, 300));
+    doubleTap();
+    await nextFrame();
+    await waitForAnimation(controller);
+
+    expect(controller.getZoomFactor()).toBe(1);
+  });
+});
+
+describe("Fit", () => {
+  it("should contain and center content by default", () => {
+    const { controller } = createController({}, "width: 200px; height: 100px");
+
+    expect(controller.getTransform()).toEqual(
+      expect.objectContaining({ scale: 0.5, x: -0, y: 50 })
+    );
+  });
+
+  it("should cover the container", () => {
+    const { controller } = createController(
+      { fit: "cover" },
+      "width: 200px; height: 100px"
+    );
+
+    expect(controller.getTransform()).toEqual(
+      expect.objectContaining({ scale: 1, x: -50 })
+    );
+  });
+
+  it("should fit width and align to the top", () => {
+    const { controller: centered } = createController(
+      { fit: "width" },
+      "width: 100px; height: 400px"
+    );
+    const { controller: top } = createController(
+      { fit: "width", initialAlign: "top" },
+      "width: 100px; height: 400px"
+    );
+
+    expect(centered.getTransform()).toEqual(
+      expect.objectContaining({ scale: 1, y: -150 })
+    );
+    expect(top.getTransform()).toEqual(
+      expect.objectContaining({ scale: 1, y: -0 })
+    );
+  });
+
+  it("should keep native size with none", () => {
+    const { controller } = createController(
+      { fit: "none", initialAlign: "bottom-right" },
+      "width: 50px; height: 50px"
+    );
+
+    expect(controller.getTransform()).toEqual(
+      expect.objectContaining({ scale: 1, x: 50, y: 50 })
+    );
+  });
+
+  it("should fit again when the fit option is changed", () => {
+    const { controller } = createController({}, "width: 200px; height: 100px");
+
+    controller.setOptions({ fit: "height" });
+
+    expect(controller.getTransform().scale).toBe(1);
+  });
+});
+
+describe("Absolute scale", () => {
+  const createWideController = (options, content) =>
+    createController(options, "width: 200px; height: 100px", content)
+      .controller;
+
+  const scaleTo = (controller, scale) =>
+    controller.scaleTo({ scale, x: 50, y: 50, animated: false });
+
+  it("should use scale relative to the fitted content by default", () => {
+    const controller = createWideController({ maxZoom: 2 });
+
+    scaleTo(controller, 4);
+
+    expect(controller.getTransform().scale).toBe(1);
+  });
+
+  it("should use scale relative to the natural content size", () => {
+    const controller = createWideController({
+      maxZoom: 2,
+      absoluteScale: true
+    });
+
+    scaleTo(controller, 1);
+
+    expect(controller.getTransform().scale).toBe(1);
+    expect(controller.getZoomFactor()).toBe(2);
+
+    scaleTo(controller, 4);
+
+    expect(controller.getTransform().scale).toBe(2);
+  });
+
+  it("should not zoom beyond native resolution", () => {
+    const image = document.createElement("img");
+
+    Object.defineProperty(image, "naturalWidth", { value: 400 });
+
+    const controller = createWideController({ limitToNativeSize: true }, image);
+    const element = createWideController({ limitToNativeSize: true });
+
+    scaleTo(controller, 10);
+    scaleTo(element, 10);
+
+    expect(controller.getTransform().scale).toBe(2);
+    expect(element.getTransform().scale).toBe(1);
+  });
+});
+
+describe("Double tap", () => {
+  let time;
+
+  const createDoubleTapController = options =>
+    createController({ animationDuration: 0, ...options });
+
+  const tap = (container, point) =>
+    ["pointerdown", "pointerup"].forEach(type =>
+      container.dispatchEvent(
+        createPointerEvent(type, {
+          pointerId: 1,
+          pointerType: "touch",
+          pageX: 50,
+          pageY: 50,
+          ...point
+        })
+      )
+    );
+
+  // Double taps and waits for the end of the animation
+  const doubleTap = async (controller, container, point) => {
+    tap(container, point);
+    time += 100;
+    tap(container, point);
+
+    do {
+      time += 1000;
+      await nextFrame();
+    } while (controller.isAnimating());
+  };
+
+  mockPointerEvents();
+
+  beforeEach(() => {
+    time = 0;
+    jest.spyOn(performance, "now").mockImplementation(() => time);
+  });
+
+  it("should add tapZoomFactor by default", async () => {
+    const { controller, container } = createDoubleTapController();
+
+    await doubleTap(controller, container);
+    await doubleTap(controller, container);
+
+    expect(controller.getZoomFactor()).toBe(3);
+  });
+
+  it("should toggle between the fit and zoomed state", async () => {
+    const { controller, container } = createDoubleTapController({
+      doubleTapBehavior: "toggle"
+    });
+
+    await doubleTap(controller, container);
+
+    expect(controller.getZoomFactor()).toBe(2);
+
+    await doubleTap(controller, container);
+
+    const { scale, x, y } = controller.getTransform();
+
+    expect(scale).toBe(1);
+    expect(x).toBeCloseTo(0);
+    expect(y).toBeCloseTo(0);
+  });
+
+  it("should reset", async () => {
+    const { controller, container } = createDoubleTapController({
+      doubleTapBehavior: "reset"
+    });
+
+    controller.scaleTo({ scale: 3, x: 20, y: 20, animated: false });
+    await doubleTap(controller, container);
+
+    expect(controller.getZoomFactor()).toBe(1);
+  });
+
+  it("should zoom to a custom target", async () => {
+    const doubleTapBehavior = jest.fn(() => ({ x: 25, y: 25, scale: 4 }));
+    const { controller, container } = createDoubleTapController({
+      doubleTapBehavior
+    });
+
+    await doubleTap(controller, container, { pageX: 10, pageY: 20 });
+
+    expect(doubleTapBehavior).toHaveBeenCalledWith(
+      { x: 10, y: 20 },
+      expect.objectContaining({ scale: 1, zoomFactor: 1 })
+    );
+    expect(controller.getZoomFactor()).toBe(4);
+    expect(controller.contentToScreen({ x: 25, y: 25 })).toEqual({
+      x: 50,
+      y: 50
+    });
+  });
+
+  it("should use doubleTapDelay", async () => {
+    const onDoubleTap = jest.fn();
+    const { container } = createDoubleTapController({
+      doubleTapDelay: 50,
+      onDoubleTap
+    });
+
+    tap(container);
+    time += 100;
+    tap(container);
+
+    expect(onDoubleTap).not.toHaveBeenCalled();
+  });
+});
+
+describe("Gesture events", () => {
+  let time;
+
+  const createZoomedController = options => {
+    const zoomed = createController({ isTouch: () => false, ...options });
+
+    zoomed.controller.scaleTo({ scale: 2, x: 50, y: 50, animated: false });
+
+    return zoomed;
+  };
+
+  mockPointerEvents();
+
+  beforeEach(() => {
+    time = 0;
+    jest.spyOn(performance, "now").mockImplementation(() => time);
+  });
+
+  it("should pass drag events", () => {
+    const onDragStart = jest.fn();
+    const onDragUpdate = jest.fn();
+    const onDragEnd = jest.fn();
+    const { controller, container } = createZoomedController({
+      onDragStart,
+      onDragUpdate,
+      onDragEnd,
+      tapThreshold: 0
+    });
+    const touch = { pointerId: 1, pointerType: "touch", pageY: 50 };
+    const move = createPointerEvent("pointermove", { ...touch, pageX: 30 });
+
+    container.dispatchEvent(
+      createPointerEvent("pointerdown", { ...touch, pageX: 50 })
+    );
+    container.dispatchEvent(
+      createPointerEvent("pointermove", { ...touch, pageX: 50 })
+    );
+    time += 10;
+    container.dispatchEvent(
+      createPointerEvent("pointermove", { ...touch, pageX: 40 })
+    );
+    time += 10;
+    container.dispatchEvent(move);
+
+    expect(onDragStart).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "dragStart", pointers: 1 })
+    );
+    expect(onDragUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        type: "dragUpdate",
+        nativeEvent: move,
+        scale: 2,
+        deltaScale: 1,
+        deltaX: -5,
+        deltaY: 0,
+        center: { x: 30, y: 50 },
+        contentCenter: controller.screenToContent({ x: 30, y: 50 }),
+        pointers: 1
+      })
+    );
+
+    const { velocity } = onDragUpdate.mock.calls[1][0];
+
+    expect(velocity.x).toBeCloseTo(-1);
+    expect(velocity.y).toBeCloseTo(0);
+
+    container.dispatchEvent(
+      createPointerEvent("pointerup", { ...touch, pageX: 30 })
+    );
+
+    expect(onDragEnd).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "dragEnd", pointers: 0 })
+    );
+  });
+
+  it("should pass wheel zoom events", () => {
+    const onZoomUpdate = jest.fn();
+    const { container } = createZoomedController({ onZoomUpdate });
+    const wheel = new WheelEvent("wheel", {
+      deltaY: -150,
+      ctrlKey: true,
+      clientX: 20,
+      clientY: 30
+    });
+
+    Object.assign(wheel, { pageX: 20, pageY: 30 });
+    container.dispatchEvent(wheel);
+
+    expect(onZoomUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        type: "zoomUpdate",
+        nativeEvent: wheel,
+        center: { x: 20, y: 30 },
+        deltaScale: 1.05
+      })
+    );
+  });
+
+  it("should keep working with callbacks without arguments", () => {
+    const { controller } = createZoomedController({ onZoomUpdate: () => {} });
+
+    expect(() =>
+      controller.scaleTo({ scale: 3, x: 0, y: 0, animated: false })
+    ).not.toThrow();
+  });
+});
+
+describe("Tap", () => {
+  const touch = { pointerId: 1, pointerType: "touch", pageX: 50, pageY: 50 };
+
+  const createTapController = options =>
+    createController({ inertia: false, ...options });
+
+  const press = (container, ...moves) => {
+    container.dispatchEvent(createPointerEvent("pointerdown", touch));
+    moves.forEach(move =>
+      container.dispatchEvent(
+        createPointerEvent("pointermove", { ...touch, ...move })
+      )
+    );
+  };
+
+  const release = container =>
+    container.dispatchEvent(createPointerEvent("pointerup", touch));
+
+  const click = container => {
+    const onClick = jest.fn();
+
+    document.body.addEventListener("click", onClick);
+    container.firstChild.dispatchEvent(
+      new MouseEvent("click", { bubbles: true })
+    );
+    document.body.removeEventListener("click", onClick);
+
+    return onClick;
+  };
+
+  mockPointerEvents();
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should treat a small jitter as a tap", () => {
+    const onTap = jest.fn();
+    const onDragStart = jest.fn();
+    const { controller, container } = createTapController({
+      onTap,
+      onDragStart
+    });
+
+    press(container, { pageX: 52, pageY: 51 });
+    release(container);
+
+    expect(onDragStart).not.toHaveBeenCalled();
+    expect(onTap).toHaveBeenCalledTimes(1);
+    expect(onTap).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "tap",
+        center: { x: 52, y: 51 },
+        contentCenter: controller.screenToContent({ x: 52, y: 51 })
+      })
+    );
+    expect(click(container)).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not treat a cancelled pointer as a tap", () => {
+    const onTap = jest.fn();
+    const { container } = createTapController({ onTap });
+
+    press(container, { pageX: 52 });
+    container.dispatchEvent(createPointerEvent("pointercancel", touch));
+
+    expect(onTap).not.toHaveBeenCalled();
+  });
+
+  it("should start a drag after the threshold", () => {
+    const onTap = jest.fn();
+    const onDragStart = jest.fn();
+    const { container } = createTapController({
+      onTap,
+      onDragStart,
+      tapThreshold: 10
+    });
+
+    press(container, { pageX: 55 }, { pageX: 65 });
+    release(container);
+
+    expect(onDragStart).toHaveBeenCalledTimes(1);
+    expect(onTap).not.toHaveBeenCalled();
+    expect(click(container)).not.toHaveBeenCalled();
+  });
+
+  it("should fire a long press after the delay", () => {
+    const onTap = jest.fn();
+    const onLongPress = jest.fn();
+    const { container } = createTapController({
+      onTap,
+      onLongPress,
+      longPressDelay: 800
+    });
+
+    press(container, { pageX: 51 });
+    jest.advanceTimersByTime(700);
+
+    expect(onLongPress).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(100);
+    release(container);
+
+    expect(onLongPress).toHaveBeenCalledTimes(1);
+    expect(onLongPress).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "longPress", center: { x: 51, y: 50 } })
+    );
+    expect(onTap).not.toHaveBeenCalled();
+    expect(click(container)).not.toHaveBeenCalled();
+  });
+
+  it("should not fire a long press after a release or a drag", () => {
+    const onLongPress = jest.fn();
+    const { container } = createTapController({ onLongPress });
+
+    press(container);
+    release(container);
+    press(container, { pageX: 80 });
+    jest.advanceTimersByTime(1000);
+
+    expect(onLongPress).not.toHaveBeenCalled();
+  });
+
+  it("should keep a slow press a click without onLongPress", () => {
+    const onTap = jest.fn();
+    const { container } = createTapController({ onTap });
+
+    press(container);
+    jest.advanceTimersByTime(600);
+    release(container);
+
+    expect(onTap).toHaveBeenCalledTimes(1);
+    expect(click(container)).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Scroll chaining", () => {
+  let time;
+  const touch = { pointerId: 1, pointerType: "touch", pageX: 50, pageY: 50 };
+
+  const createChainingController = options =>
+    createController({ inertia: false, ...options });
+
+  // Returns the moves that were cancelled
+  const drag = (container, ...moves) => {
+    // Drags shouldn't be detected as a double tap
+    time += 1000;
+    container.dispatchEvent(createPointerEvent("pointerdown", touch));
+
+    const cancelled = moves.map(move => {
+      const event = createPointerEvent("pointermove", { ...touch, ...move });
+
+      container.dispatchEvent(event);
+
+      return event.defaultPrevented;
+    });
+
+    container.dispatchEvent(createPointerEvent("pointerup", touch));
+
+    return cancelled;
+  };
+
+  mockPointerEvents();
+
+  beforeEach(() => {
+    time = 0;
+    jest.spyOn(performance, "now").mockImplementation(() => time);
+  });
+
+  it("should cancel all drags by default", () => {
+    const onDragStart = jest.fn();
+    const { container } = createChainingController({ onDragStart });
+
+    expect(drag(container, { pageX: 30 }, { pageX: 10 })).toEqual([true, true]);
+    expect(onDragStart).toHaveBeenCalledTimes(1);
+  });
+
+  it("should hand off drags of the chained axis at the initial fit", () => {
+    const onDragStart = jest.fn();
+    const { container } = createChainingController({
+      onDragStart,
+      scrollChaining: "x"
+    });
+
+    expect(drag(container, { pageX: 30 }, { pageX: 10 })).toEqual([
+      false,
+      false
+    ]);
+    expect(onDragStart).not.toHaveBeenCalled();
+
+    expect(drag(container, { pageY: 30 }, { pageY: 10 })).toEqual([true, true]);
+    expect(onDragStart).toHaveBeenCalledTimes(1);
+  });
+
+  it("should hand off drags past an edge of zoomed content", () => {
+    const { controller, container } = createChainingController({
+      scrollChaining: "both"
+    });
+
+    // The content is at its left and top edges
+    controller.scaleTo({ x: 0, y: 0, scale: 2, animated: false });
+
+    expect(drag(container, { pageX: 70 }, { pageX: 90 })).toEqual([
+      false,
+      false
+    ]);
+    expect(controller.getTransform().x).toBeCloseTo(0);
+
+    expect(drag(container, { pageY: 70 })).toEqual([false]);
+
+    expect(drag(container, { pageX: 30 }, { pageX: 10 })).toEqual([true, true]);
+    // 20px of the drag at scale 2
+    expect(controller.getTransform().x).toBeCloseTo(-10);
+  });
+
+  it("should let the browser scroll chained axes at the initial fit", async () => {
+    const { controller, container } = createChainingController({
+      scrollChaining: "y"
+    });
+
+    await nextFrame();
+
+    expect(container.style.touchAction).toBe("pan-y");
+
+    controller.scaleTo({ x: 0, y: 0, scale: 2, animated: false });
+    await nextFrame();
+
+    expect(container.style.touchAction).toBe("none");
+
+    controller.detach();
+
+    expect(container.style.touchAction).toBe("");
+  });
+
+  it("should not set touch-action without chaining", async () => {
+    const { container } = createChainingController();
+
+    await nextFrame();
+
+    // The style of the stylesheet is left
+    expect(container.style.touchAction).toBeFalsy();
+  });
+
+  it("should scroll the parent when the content reaches an edge", () => {
+    const { controller, container } = createChainingController({
+      scrollChaining: "x"
+    });
+    const scroller = createContainer();
+
+    scroller.style.overflowX = "auto";
+    scroller.scrollLeft = 100;
+    Object.defineProperties(scroller, {
+      scrollWidth: { value: 300 },
+      clientWidth: { value: 100 }
+    });
+    scroller.appendChild(container);
+    // The content is at its left edge
+    controller.scaleTo({ x: 0, y: 0, scale: 2, animated: false });
+
+    expect(
+      drag(
+        container,
+        { pageX: 30 },
+        { pageX: 10 },
+        { pageX: 50 },
+        { pageX: 70 }
+      )
+    ).toEqual([true, true, true, false]);
+    expect(controller.getTransform().x).toBeCloseTo(0);
+    expect(scroller.scrollLeft).toBe(80);
+
+    drag(container, { pageX: 60 }, { pageX: 80 });
+
+    expect(scroller.scrollLeft).toBe(50);
+  });
+
+  it("should pinch with a second finger after a hand-off", () => {
+    const { controller, container } = createChainingController({
+      scrollChaining: "x"
+    });
+    const second = { pointerId: 2, pointerType: "touch", pageX: 60, pageY: 50 };
+
+    container.dispatchEvent(createPointerEvent("pointerdown", touch));
+    container.dispatchEvent(
+      createPointerEvent("pointermove", { ...touch, pageX: 40 })
+    );
+    container.dispatchEvent(createPointerEvent("pointerdown", second));
+
+    for (let pageX = 60; pageX < 120; pageX += 10) {
+      container.dispatchEvent(
+        createPointerEvent("pointermove", { ...second, pageX })
+      );
+    }
+
+    expect(controller.getZoomFactor()).toBeGreaterThan(1);
+  });
+});
+
+describe("Direct transform", () => {
+  const touch = { pointerId: 1, pointerType: "touch" };
+
+  const createDirectController = options =>
+    createController({
+      applyTransform: true,
+      inertia: false,
+      tapThreshold: 0,
+      ...options
+    });
+
+  mockPointerEvents();
+
+  it("should apply the transform to the content", async () => {
+    const onUpdate = jest.fn();
+    const { controller, content } = createDirectController({ onUpdate });
+
+    controller.scaleTo({ x: 0, y: 0, scale: 2, animated: false });
+    await nextFrame();
+
+    expect(content.style.transform).toBe(
+      make2dTransformValue(controller.getTransform())
+    );
+    expect(onUpdate).toHaveBeenLastCalledWith(controller.getTransform());
+  });
+
+  it("should not touch the content by default", async () => {
+    const { controller, content } = createDirectController({
+      applyTransform: false
+    });
+
+    controller.scaleTo({ x: 0, y: 0, scale: 2, animated: false });
+    await nextFrame();
+
+    expect(content.style.transform).toBe("");
+  });
+
+  it("should set will-change during interaction", async () => {
+    const { content, container } = createDirectController();
+
+    container.dispatchEvent(createPointerEvent("pointerdown", touch));
+    container.dispatchEvent(createPointerEvent("pointermove", touch));
+    container.dispatchEvent(
+      createPointerEvent("pointermove", { ...touch, pageX: 10 })
+    );
+    await nextFrame();
+
+    expect(content.style.willChange).toBe("transform");
+
+    container.dispatchEvent(createPointerEvent("pointerup", touch));
+    await nextFrame();
+
+    expect(content.style.willChange).toBe("");
+  });
+});
+
+describe("Layout measurements", () => {
+  const touch = { pointerId: 1, pointerType: "touch", pageY: 50 };
+  let time;
+  let rectSpy;
+
+  const createLayoutController = () =>
+    createController({ tapThreshold: 0 }, "width: 200px; height: 200px");
+
+  // Counts forced layouts of a drag and the following inertia
+  const countDragLayouts = async moves => {
+    const styleSpy = jest.spyOn(window, "getComputedStyle");
+    const { controller, container } = createLayoutController();
+
+    controller.scaleTo({ x: 0, y: 0, scale: 2, animated: false });
+    rectSpy.mockClear();
+    styleSpy.mockClear();
+
+    container.dispatchEvent(
+      createPointerEvent("pointerdown", { ...touch, pageX: 80 })
+    );
+
+    for (let i = 0; i <= moves; i++) {
+      time += 16;
+      container.dispatchEvent(
+        createPointerEvent("pointermove", { ...touch, pageX: 80 - i })
+      );
+    }
+
+    container.dispatchEvent(createPointerEvent("pointerup", touch));
+
+    expect(controller.isAnimating()).toBe(true);
+
+    do {
+      time += 100;
+      await nextFrame();
+    } while (controller.isAnimating());
+
+    controller.detach();
+    styleSpy.mockRestore();
+
+    return rectSpy.mock.calls.length + styleSpy.mock.calls.length;
+  };
+
+  mockPointerEvents();
+
+  beforeEach(() => {
+    time = 0;
+    jest.spyOn(performance, "now").mockImplementation(() => time);
+    rectSpy = mockContainerRect();
+  });
+
+  it("should measure the layout once per gesture", async () => {
+    const shortDrag = await countDragLayouts(5);
+    const longDrag = await countDragLayouts(50);
+
+    expect(shortDrag).toBe(1);
+    expect(longDrag).toBe(1);
+  });
+
+  it("should measure the container again after scroll", () => {
+    const { controller } = createLayoutController();
+    const point = { x: 50, y: 50 };
+    const before = controller.screenToContent(point);
+
+    rectSpy.mockReturnValue({ top: -50, left: 0, width: 100, height: 100 });
+
+    expect(controller.screenToContent(point)).toEqual(before);
+
+    document.dispatchEvent(new Event("scroll"));
+
+    expect(controller.screenToContent(point)).not.toEqual(before);
+  });
+
+  it("should measure the container again after scroll in a shadow root", () => {
+    const shadowRoot = createContainer().attachShadow({ mode: "open" });
+    const scroller = document.createElement("div");
+    const container = document.createElement("div");
+    const controller = new PinchZoomController();
+    const point = { x: 50, y: 50 };
+
+    container.appendChild(document.createElement("div"));
+    scroller.appendChild(container);
+    shadowRoot.appendChild(scroller);
+    controller.attach(container);
+
+    const before = controller.screenToContent(point);
+
+    rectSpy.mockReturnValue({ top: -50, left: 0, width: 100, height: 100 });
+    // Scroll events aren't composed
+    scroller.dispatchEvent(new Event("scroll"));
+
+    expect(controller.screenToContent(point)).not.toEqual(before);
+
+    controller.detach();
+  });
+
+  it("should measure a replaced content element", async () => {
+    const { controller, container } = createLayoutController();
+    const content = document.createElement("div");
+
+    content.style.cssText = "width: 400px; height: 400px";
+    container.replaceChild(content, container.firstChild);
+    await nextFrame();
+
+    expect(controller.getTransform().scale).toBe(0.25);
+  });
+
+  it("should listen loads of added images until detached", async () => {
+    const { controller, content } = createLayoutController();
+    const image = document.createElement("img");
+
+    content.appendChild(image);
+    await nextFrame();
+    content.style.cssText = "width: 400px; height: 400px";
+    image.dispatchEvent(new Event("load"));
+
+    expect(controller.getTransform().scale).toBe(0.25);
+
+    controller.detach();
+    content.style.cssText = "width: 100px; height: 100px";
+    image.dispatchEvent(new Event("load"));
+
+    expect(controller.getTransform().scale).toBe(0.25);
+  });
+});
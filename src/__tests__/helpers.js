@@ -0,0 +1,73 @@
+import { PinchZoomController } from "../index";
+
+// Everything created by the helpers is cleaned up after each test
+const controllers = [];
+const containers = [];
+
+afterEach(() => {
+  controllers.splice(0).forEach(controller => controller.detach());
+  containers.splice(0).forEach(container => container.remove());
+  jest.restoreAllMocks();
+});
+
+export const nextFrame = () =>
+  new Promise(resolve => requestAnimationFrame(resolve));
+
+export const waitForAnimation = async controller => {
+  while (controller.isAnimating()) {
+    await nextFrame();
+  }
+};
+
+export const createPointerEvent = (type, pointer) => {
+  const event = new Event(type, { bubbles: true, cancelable: true });
+
+  return Object.assign(event, { button: 0, pageX: 0, pageY: 0 }, pointer);
+};
+
+// Makes the controller listen pointer events in tests of the current block
+export const mockPointerEvents = () => {
+  beforeAll(() => {
+    window.PointerEvent = function PointerEvent() {};
+  });
+
+  afterAll(() => {
+    delete window.PointerEvent;
+  });
+};
+
+// jsdom doesn't have a layout engine
+export const mockContainerRect = rect =>
+  jest
+    .spyOn(Element.prototype, "getBoundingClientRect")
+    .mockReturnValue({ top: 0, left: 0, width: 100, height: 100, ...rect });
+
+export const createContainer = (
+  childStyle = "",
+  content = document.createElement("div")
+) => {
+  const container = document.createElement("div");
+
+  content.style.cssText = childStyle;
+  container.appendChild(content);
+  document.body.appendChild(container);
+  containers.push(container);
+
+  return container;
+};
+
+export const createController = (
+  options,
+  childStyle = "width: 100px; height: 100px",
+  content
+) => {
+  const controller = new PinchZoomController(options);
+  const container = createContainer(childStyle, content);
+
+  controller.attach(container);
+  controllers.push(controller);
+  // Measures the content
+  window.dispatchEvent(new Event("resize"));
+
+  return { controller, container, content: container.firstChild };
+};
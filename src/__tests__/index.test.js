@@ -1,7 +1,16 @@
+import * as fs from "fs";
+import * as path from "path";
 import * as React from "react";
 import { mount } from "enzyme/build";
+import { act } from "react-dom/test-utils";
 
 import QuickPinchZoom from "../index";
+import { styles } from "../PinchZoom/styles.css";
+import {
+  createPointerEvent,
+  mockContainerRect,
+  mockPointerEvents
+} from "./helpers";
 
 const defaultProps = {
   onUpdate: () => {},
@@ -17,6 +26,42 @@ describe("QuickPinchZoom", () => {
     });
   });
 
+  it("should not re-render on updates", async () => {
+    const ref = React.createRef();
+    const onUpdate = jest.fn();
+    const onRender = jest.fn();
+
+    mount(
+      <React.Profiler id="pinch-zoom" onRender={onRender}>
+        <QuickPinchZoom {...defaultProps} ref={ref} onUpdate={onUpdate} />
+      </React.Profiler>
+    );
+    await nextFrame();
+    onRender.mockClear();
+
+    act(() => {
+      ref.current.scaleTo({ x: 0, y: 0, scale: 2, animated: false });
+    });
+    await nextFrame();
+
+    expect(onUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ scale: 2 })
+    );
+    expect(onRender).not.toHaveBeenCalled();
+  });
+
+  it("should not require onUpdate with applyTransform", () => {
+    const consoleError = jest.spyOn(console, "error");
+
+    mount(
+      <QuickPinchZoom applyTransform>
+        <div />
+      </QuickPinchZoom>
+    );
+
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
   it("should raises an error when children is not single react element", () => {
     expect(() => {
       render({
@@ -31,3 +76,448 @@ describe("QuickPinchZoom", () => {
     }).toThrow();
   });
 });
+
+const nextFrame = () =>
+  act(() => new Promise(resolve => requestAnimationFrame(resolve)));
+
+const getLastUpdate = onUpdate =>
+  onUpdate.mock.calls[onUpdate.mock.calls.length - 1][0];
+
+const sizedChild = <div style={{ width: 100, height: 100 }} />;
+
+describe("Pointer events", () => {
+  mockPointerEvents();
+
+  it("should handle pen and touch pointers in the same gesture", () => {
+    const onDragStart = jest.fn();
+    const onZoomStart = jest.fn();
+    const onDragEnd = jest.fn();
+    const wrap = render({
+      onDragStart,
+      onZoomStart,
+      onDragEnd,
+      tapThreshold: 0
+    });
+    const div = wrap.getDOMNode();
+    const pen = { pointerId: 1, pointerType: "pen" };
+    const touch = { pointerId: 2, pointerType: "touch" };
+
+    div.dispatchEvent(createPointerEvent("pointerdown", pen));
+    div.dispatchEvent(createPointerEvent("pointermove", pen));
+
+    expect(onDragStart).toHaveBeenCalledTimes(1);
+
+    div.dispatchEvent(createPointerEvent("pointerdown", touch));
+    div.dispatchEvent(
+      createPointerEvent("pointermove", { ...touch, pageX: 10 })
+    );
+
+    expect(onZoomStart).toHaveBeenCalledTimes(1);
+
+    div.dispatchEvent(createPointerEvent("pointerup", touch));
+    div.dispatchEvent(createPointerEvent("pointerup", pen));
+
+    expect(onDragEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it("should ignore moves of pointers that are not pressed", () => {
+    const onDragStart = jest.fn();
+    const wrap = render({ onDragStart });
+    const div = wrap.getDOMNode();
+    const mouse = { pointerId: 1, pointerType: "mouse" };
+
+    div.dispatchEvent(createPointerEvent("pointermove", mouse));
+    div.dispatchEvent(createPointerEvent("pointermove", mouse));
+
+    expect(onDragStart).not.toHaveBeenCalled();
+  });
+});
+
+describe("Rotation", () => {
+  const first = { pointerId: 1, pointerType: "touch" };
+  const second = { pointerId: 2, pointerType: "touch" };
+
+  // Turns the line between two fingers by 90 degrees clockwise
+  const rotateGesture = div => {
+    const move = pointer =>
+      div.dispatchEvent(createPointerEvent("pointermove", pointer));
+
+    div.dispatchEvent(
+      createPointerEvent("pointerdown", { ...first, pageY: 50 })
+    );
+    div.dispatchEvent(
+      createPointerEvent("pointerdown", { ...second, pageX: 100, pageY: 50 })
+    );
+
+    // The first zoom events are thrown away
+    for (let i = 0; i < 4; i++) {
+      move({ ...first, pageY: 50 });
+    }
+
+    move({ ...first, pageX: 50, pageY: 0 });
+    move({ ...second, pageX: 50, pageY: 100 });
+  };
+
+  mockPointerEvents();
+
+  it("should rotate element when rotation is enabled", async () => {
+    const onUpdate = jest.fn();
+    const wrap = render({ onUpdate, enableRotation: true });
+
+    rotateGesture(wrap.getDOMNode());
+    await nextFrame();
+
+    expect(getLastUpdate(onUpdate).rotation).toBeCloseTo(90);
+  });
+
+  it("should ignore rotation by default", async () => {
+    const onUpdate = jest.fn();
+    const wrap = render({ onUpdate });
+
+    rotateGesture(wrap.getDOMNode());
+    await nextFrame();
+
+    expect(getLastUpdate(onUpdate).rotation).toBe(0);
+  });
+
+  it("should rotate to the target rotation with scaleTo", async () => {
+    const onUpdate = jest.fn();
+    const ref = React.createRef();
+
+    render({ onUpdate, ref });
+    ref.current.scaleTo({
+      x: 0,
+      y: 0,
+      scale: 1,
+      rotation: 45,
+      animated: false
+    });
+    await nextFrame();
+
+    expect(getLastUpdate(onUpdate).rotation).toBeCloseTo(45);
+  });
+});
+
+describe("Controlled mode", () => {
+  mockPointerEvents();
+
+  it("should follow scale and offset from props", async () => {
+    const onUpdate = jest.fn();
+    const onChange = jest.fn();
+    const wrap = render({ onUpdate, onChange, scale: 2, x: 10, y: 20 });
+
+    await nextFrame();
+
+    expect(getLastUpdate(onUpdate)).toMatchObject({ scale: 2, x: 10, y: 20 });
+    expect(onChange).not.toHaveBeenCalled();
+
+    wrap.setProps({ scale: 3, x: 5, y: 0 });
+    await nextFrame();
+
+    expect(getLastUpdate(onUpdate)).toMatchObject({ scale: 3, x: 5, y: 0 });
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should report gesture changes through onChange", async () => {
+    mockContainerRect();
+
+    const onChange = jest.fn();
+    const wrap = render({
+      onChange,
+      scale: 2,
+      x: 0,
+      y: 0,
+      tapThreshold: 0,
+      children: sizedChild
+    });
+    const div = wrap.getDOMNode();
+    const touch = { pointerId: 1, pointerType: "touch" };
+
+    await nextFrame();
+
+    div.dispatchEvent(createPointerEvent("pointerdown", touch));
+    div.dispatchEvent(createPointerEvent("pointermove", touch));
+    div.dispatchEvent(
+      createPointerEvent("pointermove", { ...touch, pageX: -20 })
+    );
+    await nextFrame();
+
+    expect(getLastUpdate(onChange)).toMatchObject({ scale: 2, x: -10 });
+  });
+
+  it("should not reconcile props during a gesture", async () => {
+    const onUpdate = jest.fn();
+    const wrap = render({ onUpdate, scale: 2, x: 0, y: 0, tapThreshold: 0 });
+    const div = wrap.getDOMNode();
+    const touch = { pointerId: 1, pointerType: "touch" };
+
+    await nextFrame();
+
+    div.dispatchEvent(createPointerEvent("pointerdown", touch));
+    div.dispatchEvent(createPointerEvent("pointermove", touch));
+    wrap.setProps({ scale: 4 });
+    await nextFrame();
+
+    expect(getLastUpdate(onUpdate).scale).toBe(2);
+  });
+
+  it("should reconcile props changed during an animation", async () => {
+    const ref = React.createRef();
+    const onUpdate = jest.fn();
+    const wrap = render({ ref, onUpdate, scale: 1, x: 0, y: 0 });
+
+    await nextFrame();
+
+    let status;
+
+    await act(async () => {
+      const animation = ref.current.scaleTo({
+        x: 0,
+        y: 0,
+        scale: 2,
+        duration: 20
+      });
+
+      wrap.setProps({ scale: 3 });
+      status = await animation;
+    });
+    await nextFrame();
+
+    expect(status).toBe("finished");
+    expect(getLastUpdate(onUpdate)).toMatchObject({ scale: 3, x: 0, y: 0 });
+  });
+
+  it("should return to props ignoring onChange after a gesture", async () => {
+    mockContainerRect();
+
+    const onUpdate = jest.fn();
+    const wrap = render({
+      onUpdate,
+      scale: 2,
+      x: 0,
+      y: 0,
+      inertia: false,
+      tapThreshold: 0,
+      children: sizedChild
+    });
+    const div = wrap.getDOMNode();
+    const touch = { pointerId: 1, pointerType: "touch" };
+
+    await nextFrame();
+
+    div.dispatchEvent(createPointerEvent("pointerdown", touch));
+    div.dispatchEvent(createPointerEvent("pointermove", touch));
+    div.dispatchEvent(
+      createPointerEvent("pointermove", { ...touch, pageX: -20 })
+    );
+    await nextFrame();
+
+    expect(getLastUpdate(onUpdate)).toMatchObject({ scale: 2, x: -10 });
+
+    div.dispatchEvent(createPointerEvent("pointerup", touch));
+    await nextFrame();
+
+    expect(getLastUpdate(onUpdate)).toMatchObject({ scale: 2, x: 0, y: 0 });
+  });
+
+  it("should return to props ignoring onChange after inertia", async () => {
+    mockContainerRect();
+
+    let time = 0;
+
+    jest.spyOn(performance, "now").mockImplementation(() => time);
+
+    const ref = React.createRef();
+    const onUpdate = jest.fn();
+    const wrap = render({
+      ref,
+      onUpdate,
+      scale: 2,
+      x: 0,
+      y: 0,
+      inertia: true,
+      tapThreshold: 0,
+      children: sizedChild
+    });
+    const div = wrap.getDOMNode();
+    const touch = { pointerId: 1, pointerType: "touch" };
+
+    await nextFrame();
+
+    div.dispatchEvent(createPointerEvent("pointerdown", touch));
+    [0, -20, -40].forEach(pageX => {
+      time += 10;
+      div.dispatchEvent(createPointerEvent("pointermove", { ...touch, pageX }));
+    });
+    div.dispatchEvent(
+      createPointerEvent("pointerup", { ...touch, pageX: -40 })
+    );
+
+    expect(ref.current.isAnimating()).toBe(true);
+
+    while (ref.current.isAnimating()) {
+      time += 16;
+      await nextFrame();
+    }
+    await nextFrame();
+
+    expect(getLastUpdate(onUpdate)).toMatchObject({ scale: 2, x: 0, y: 0 });
+  });
+});
+
+describe("State getters", () => {
+  mockPointerEvents();
+
+  it("should return the current transform synchronously", () => {
+    const ref = React.createRef();
+
+    render({ ref });
+    ref.current.scaleTo({ x: 0, y: 0, scale: 2, animated: false });
+
+    expect(ref.current.getTransform()).toMatchObject({ scale: 2, rotation: 0 });
+    expect(ref.current.getZoomFactor()).toBe(2);
+  });
+
+  it("should report animation state", () => {
+    const ref = React.createRef();
+
+    render({ ref });
+
+    expect(ref.current.isAnimating()).toBe(false);
+
+    ref.current.scaleTo({ x: 0, y: 0, scale: 2 });
+
+    expect(ref.current.isAnimating()).toBe(true);
+  });
+
+  it("should report interaction state", () => {
+    const ref = React.createRef();
+    const wrap = render({ ref, tapThreshold: 0 });
+    const div = wrap.getDOMNode();
+    const touch = { pointerId: 1, pointerType: "touch" };
+
+    expect(ref.current.isInteracting()).toBe(false);
+
+    div.dispatchEvent(createPointerEvent("pointerdown", touch));
+    div.dispatchEvent(createPointerEvent("pointermove", touch));
+
+    expect(ref.current.isInteracting()).toBe(true);
+
+    div.dispatchEvent(createPointerEvent("pointerup", touch));
+
+    expect(ref.current.isInteracting()).toBe(false);
+  });
+});
+
+describe("Animations", () => {
+  it("should resolve scaleTo when animation is finished", async () => {
+    const ref = React.createRef();
+
+    render({ ref });
+
+    let status;
+
+    await act(async () => {
+      status = await ref.current.scaleTo({
+        x: 0,
+        y: 0,
+        scale: 2,
+        duration: 20
+      });
+    });
+
+    expect(status).toBe("finished");
+    expect(ref.current.isAnimating()).toBe(false);
+    expect(ref.current.getZoomFactor()).toBe(2);
+  });
+
+  it("should resolve cancelled animation when another one starts", async () => {
+    const ref = React.createRef();
+
+    render({ ref });
+
+    const first = ref.current.scaleTo({ x: 0, y: 0, scale: 2 });
+    const second = ref.current.alignCenter({ x: 0, y: 0, scale: 3 });
+
+    await act(async () => {
+      await expect(first).resolves.toBe("cancelled");
+      await expect(second).resolves.toBe("finished");
+    });
+  });
+
+  it("should resolve cancelled animation on unmount", async () => {
+    const ref = React.createRef();
+    const wrap = render({ ref });
+    const animation = ref.current.scaleTo({ x: 0, y: 0, scale: 2 });
+
+    wrap.unmount();
+
+    await expect(animation).resolves.toBe("cancelled");
+  });
+});
+
+describe("Styles", () => {
+  it("should inject the styles once on mount", () => {
+    const getStyles = () => document.querySelectorAll("style#kvfysmfp-style");
+
+    document.head.innerHTML = "";
+
+    expect(getStyles()).toHaveLength(0);
+
+    render();
+    render();
+
+    expect(getStyles()).toHaveLength(1);
+  });
+
+  it("should set a nonce of the injected styles", () => {
+    document.head.innerHTML = "";
+
+    render({ nonce: "abc" });
+
+    expect(
+      document.getElementById("kvfysmfp-style").getAttribute("nonce")
+    ).toBe("abc");
+  });
+
+  it("should not inject the styles when they are bundled", () => {
+    document.head.innerHTML = "";
+
+    render({ injectStyles: false });
+
+    expect(document.querySelectorAll("style")).toHaveLength(0);
+  });
+
+  it("should inject the styles into a shadow root", () => {
+    const host = document.createElement("div");
+    const shadowRoot = host.attachShadow({ mode: "open" });
+    const attachTo = document.createElement("div");
+
+    document.head.innerHTML = "";
+    document.body.appendChild(host);
+    shadowRoot.appendChild(attachTo);
+
+    const wrap = mount(<QuickPinchZoom {...defaultProps} />, { attachTo });
+
+    expect(shadowRoot.querySelectorAll("style")).toHaveLength(1);
+    expect(document.querySelectorAll("style")).toHaveLength(0);
+
+    wrap.detach();
+    host.remove();
+  });
+
+  it("should ship the same styles as a static file", () => {
+    // Comments, whitespaces and last semicolons don't matter
+    const normalize = css =>
+      css
+        .replace(/\/\*[^]*?\*\//g, "")
+        .replace(/\s/g, "")
+        .replace(/;}/g, "}");
+    const file = fs.readFileSync(
+      path.join(__dirname, "../../styles.css"),
+      "utf8"
+    );
+
+    expect(normalize(file)).toBe(normalize(styles));
+  });
+});
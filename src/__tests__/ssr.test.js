@@ -0,0 +1,37 @@
+/**
+ * @jest-environment node
+ */
+import * as React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+
+import QuickPinchZoom, { usePinchZoom } from "../index";
+
+const Viewer = () => {
+  const { containerRef, contentRef } = usePinchZoom();
+
+  return (
+    <section ref={containerRef}>
+      <img ref={contentRef} />
+    </section>
+  );
+};
+
+describe("Server rendering", () => {
+  it("should render the container markup without DOM", () => {
+    expect(typeof window).toBe("undefined");
+
+    const html = renderToStaticMarkup(
+      <QuickPinchZoom onUpdate={() => {}}>
+        <div className="content" />
+      </QuickPinchZoom>
+    );
+
+    expect(html).toBe(
+      '<div class="kvfysmfp"><div class="ufhsfnkm content"></div></div>'
+    );
+  });
+
+  it("should render with the hook", () => {
+    expect(renderToStaticMarkup(<Viewer />)).toBe("<section><img/></section>");
+  });
+});
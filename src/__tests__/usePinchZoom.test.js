@@ -0,0 +1,123 @@
+import * as React from "react";
+import { mount } from "enzyme/build";
+import { act } from "react-dom/test-utils";
+
+import { usePinchZoom } from "../index";
+import { mockContainerRect } from "./helpers";
+
+const nextFrame = () =>
+  act(() => new Promise(resolve => requestAnimationFrame(resolve)));
+
+const Viewer = React.forwardRef(({ imageKey, ...options }, ref) => {
+  const pinchZoom = usePinchZoom(options);
+  const { containerRef, contentRef, transform } = pinchZoom;
+
+  React.useImperativeHandle(ref, () => pinchZoom);
+
+  return (
+    <section ref={containerRef}>
+      <span />
+      <img
+        key={imageKey}
+        ref={contentRef}
+        style={{ width: 100, height: 100 }}
+        data-scale={transform.scale}
+      />
+    </section>
+  );
+});
+
+describe("usePinchZoom", () => {
+  it("should return current transform", async () => {
+    const ref = React.createRef();
+    const onUpdate = jest.fn();
+    const wrap = mount(<Viewer ref={ref} onUpdate={onUpdate} />);
+
+    await nextFrame();
+
+    act(() => {
+      ref.current.scaleTo({ x: 0, y: 0, scale: 2, animated: false });
+    });
+    await nextFrame();
+    wrap.update();
+
+    expect(wrap.find("img").prop("data-scale")).toBe(2);
+    expect(onUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ scale: 2 })
+    );
+  });
+
+  it("should reset transform", async () => {
+    const ref = React.createRef();
+    mount(<Viewer ref={ref} />);
+
+    act(() => {
+      ref.current.scaleTo({ x: 0, y: 0, scale: 3, animated: false });
+    });
+    await nextFrame();
+
+    act(() => {
+      ref.current.reset();
+    });
+    await nextFrame();
+
+    expect(ref.current.transform).toMatchObject({ scale: 1, rotation: 0 });
+  });
+
+  it("should not re-render when the transform is applied directly", async () => {
+    const ref = React.createRef();
+    const onUpdate = jest.fn();
+    const wrap = mount(<Viewer ref={ref} onUpdate={onUpdate} applyTransform />);
+
+    await nextFrame();
+
+    const { transform } = ref.current;
+
+    act(() => {
+      ref.current.scaleTo({ x: 0, y: 0, scale: 2, animated: false });
+    });
+    await nextFrame();
+
+    expect(ref.current.transform).toBe(transform);
+    expect(onUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ scale: 2 })
+    );
+    expect(wrap.getDOMNode().querySelector("img").style.transform).toBe(
+      "scale(2) translate(0px, 0px)"
+    );
+  });
+
+  it("should attach a new content element", async () => {
+    const ref = React.createRef();
+
+    mockContainerRect();
+
+    const wrap = mount(<Viewer ref={ref} imageKey="first" applyTransform />);
+
+    await nextFrame();
+    wrap.setProps({ imageKey: "second" });
+
+    act(() => {
+      ref.current.scaleTo({ x: 0, y: 0, scale: 2, animated: false });
+    });
+    await nextFrame();
+
+    expect(wrap.getDOMNode().querySelector("img").style.transform).toBe(
+      "scale(2) translate(0px, 0px)"
+    );
+  });
+
+  it("should follow controlled values", async () => {
+    const ref = React.createRef();
+    const wrap = mount(<Viewer ref={ref} scale={2} x={5} y={10} />);
+
+    await nextFrame();
+
+    expect(ref.current.transform).toMatchObject({ scale: 2, x: 5, y: 10 });
+
+    wrap.setProps({ scale: 4 });
+    await nextFrame();
+
+    expect(ref.current.transform).toMatchObject({ scale: 4, x: 5, y: 10 });
+  });
+});
@@ -16,3 +16,14 @@ it("should return transform 3d value", () => {
     "scale3d(2,2, 1) translate3d(100px, 150px, 0)"
   );
 });
+
+it("should append rotation to transform values", () => {
+  const [x, y, scale, rotation] = [100, 150, 2, 30];
+
+  expect(make2dTransformValue({ x, y, scale, rotation })).toBe(
+    "scale(2) translate(100px, 150px) rotate(30deg)"
+  );
+  expect(make3dTransformValue({ x, y, scale, rotation })).toBe(
+    "scale3d(2,2, 1) translate3d(100px, 150px, 0) rotate3d(0, 0, 1, 30deg)"
+  );
+});
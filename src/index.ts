@@ -1,4 +1,6 @@
 export { default } from "./PinchZoom/component";
+export { default as usePinchZoom } from "./PinchZoom/usePinchZoom";
+export { default as PinchZoomController } from "./PinchZoom/controller";
 export {
   hasTranslate3DSupport,
   make2dTransformValue,
@@ -3,11 +3,15 @@ import { UpdateAction } from "./PinchZoom/types";
 export const isTouch = () =>
   "ontouchstart" in window || navigator.maxTouchPoints > 0;
 
-export const make2dTransformValue = ({ x, y, scale }: UpdateAction) =>
-  `scale(${scale}) translate(${x}px, ${y}px)`;
+export const hasPointerEvents = () => "PointerEvent" in window;
 
-export const make3dTransformValue = ({ x, y, scale }: UpdateAction) =>
-  `scale3d(${scale},${scale}, 1) translate3d(${x}px, ${y}px, 0)`;
+export const make2dTransformValue = ({ x, y, scale, rotation }: UpdateAction) =>
+  `scale(${scale}) translate(${x}px, ${y}px)` +
+  (rotation ? ` rotate(${rotation}deg)` : "");
+
+export const make3dTransformValue = ({ x, y, scale, rotation }: UpdateAction) =>
+  `scale3d(${scale},${scale}, 1) translate3d(${x}px, ${y}px, 0)` +
+  (rotation ? ` rotate3d(0, 0, 1, ${rotation}deg)` : "");
 
 export const hasTranslate3DSupport = () => {
   const css = window.CSS;